@@ -16,6 +16,8 @@ import { TripsPage } from "@/pages/trips/TripsPage";
 import { StartTripPage } from "@/pages/trips/StartTripPage";
 import { ActiveTripPage } from "@/pages/trips/ActiveTripPage";
 import { TripDetailsPage } from "@/pages/trips/TripDetailsPage";
+import { TripSchedulesPage } from "@/pages/trips/TripSchedulesPage";
+import { TripScheduleFormPage } from "@/pages/trips/TripScheduleFormPage";
 import { LocationsPage } from "@/pages/locations/LocationsPage";
 import { LocationFormPage } from "@/pages/locations/LocationFormPage";
 import { ContactsPage } from "@/pages/contacts/ContactsPage";
@@ -86,6 +88,9 @@ function AppRoutes() {
         <Route path="/trips" element={<TripsPage />} />
         <Route path="/trips/start" element={<StartTripPage />} />
         <Route path="/trips/active" element={<ActiveTripPage />} />
+        <Route path="/trips/schedules" element={<TripSchedulesPage />} />
+        <Route path="/trips/schedules/new" element={<TripScheduleFormPage />} />
+        <Route path="/trips/schedules/:scheduleId" element={<TripScheduleFormPage />} />
         <Route path="/trips/:tripId" element={<TripDetailsPage />} />
 
         <Route path="/locations" element={<LocationsPage />} />
@@ -1,13 +1,30 @@
+import { z } from 'zod';
 import apiClient from './client';
-import { AlertResponse, RespondToAlertRequest } from '@/models/types';
+import { CreateCheckInAlertRequest, CreateSosAlertRequest, RespondToAlertRequest } from '@/models/types';
+import { alertResponseSchema } from '@/models/schemas';
 
 export const alertsApi = {
   listForTrip: (tripId: string) =>
-    apiClient.request<AlertResponse[]>(`/api/v1/alerts/trip/${tripId}`),
+    apiClient.request(`/api/v1/alerts/trip/${tripId}`, { schema: z.array(alertResponseSchema) }),
 
   respond: (alertId: string, data: RespondToAlertRequest) =>
-    apiClient.request<AlertResponse>(`/api/v1/alerts/${alertId}/respond`, {
+    apiClient.request(`/api/v1/alerts/${alertId}/respond`, {
       method: 'POST',
       body: JSON.stringify(data),
+      schema: alertResponseSchema,
+    }),
+
+  createMissedCheckIn: (data: CreateCheckInAlertRequest) =>
+    apiClient.request('/api/v1/alerts/check-in', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      schema: alertResponseSchema,
+    }),
+
+  createSos: (data: CreateSosAlertRequest) =>
+    apiClient.request('/api/v1/alerts/sos', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      schema: alertResponseSchema,
     }),
 };
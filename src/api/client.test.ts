@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: string;
+}
+
+const EMAIL = 'walker@example.com';
+const PASSWORD = 'correct horse battery staple';
+const ACCESS_TOKEN = 'access-token-secret';
+const REFRESH_TOKEN = 'refresh-token-secret';
+const NEW_NAME = 'Renamed Walker';
+const NEW_PHONE = '+15550001111';
+
+const SECRETS = [EMAIL, PASSWORD, ACCESS_TOKEN, REFRESH_TOKEN, NEW_NAME, NEW_PHONE];
+
+const user = {
+  id: 'user-1',
+  name: NEW_NAME,
+  email: EMAIL,
+  phoneNumber: NEW_PHONE,
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+};
+
+const tokens = { accessToken: ACCESS_TOKEN, refreshToken: REFRESH_TOKEN };
+
+const readBody = (request: IncomingMessage) =>
+  new Promise<string>((resolve) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => resolve(body));
+  });
+
+// Stands in for the backend and records everything the client sends
+let server: Server;
+let requests: RecordedRequest[] = [];
+let client: typeof import('./client');
+let users: typeof import('./users');
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    requests.push({ method: request.method, url: request.url, body: await readBody(request) });
+
+    const path = new URL(request.url, 'http://localhost').pathname;
+    const reply = path === '/api/v1/users/me' ? user : path.startsWith('/api/v1/auth/') ? tokens : null;
+
+    response.writeHead(reply ? 200 : 404, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    });
+    response.end(reply ? JSON.stringify(reply) : '');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  vi.stubEnv('VITE_API_BASE_URL', `http://127.0.0.1:${port}`);
+  vi.stubEnv('VITE_API_LEGACY_QUERY_PARAMS', 'false');
+  vi.stubEnv('VITE_TOKEN_STORAGE', 'memory');
+  // No other tabs to ask for a session
+  vi.stubGlobal('BroadcastChannel', undefined);
+
+  client = await import('./client');
+  users = await import('./users');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+const expectNoSecretsInUrls = () => {
+  expect(requests.length).toBeGreaterThan(0);
+  requests.forEach(({ url }) => {
+    SECRETS.forEach((secret) => {
+      expect(url).not.toContain(secret);
+      expect(url).not.toContain(encodeURIComponent(secret));
+    });
+    expect(url).not.toContain('?');
+  });
+};
+
+describe('credentials and profile fields stay out of URLs', () => {
+  it('sends login credentials as a JSON body', async () => {
+    await client.apiClient.login(EMAIL, PASSWORD);
+
+    expectNoSecretsInUrls();
+    expect(requests[0]).toMatchObject({ method: 'POST', url: '/api/v1/auth/login' });
+    expect(JSON.parse(requests[0].body)).toEqual({ email: EMAIL, password: PASSWORD });
+  });
+
+  it('sends the refresh token as a JSON body', async () => {
+    expect(await client.apiClient.refreshSession()).toBe(true);
+
+    expectNoSecretsInUrls();
+    expect(requests[0]).toMatchObject({ method: 'POST', url: '/api/v1/auth/refresh' });
+    expect(JSON.parse(requests[0].body)).toEqual({ refreshToken: REFRESH_TOKEN });
+  });
+
+  it('sends profile updates as a JSON body', async () => {
+    await users.usersApi.updateMe({ name: NEW_NAME, phoneNumber: NEW_PHONE });
+
+    expectNoSecretsInUrls();
+    expect(requests[0]).toMatchObject({ method: 'PUT', url: '/api/v1/users/me' });
+    expect(JSON.parse(requests[0].body)).toEqual({ name: NEW_NAME, phoneNumber: NEW_PHONE });
+  });
+});
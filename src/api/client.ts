@@ -1,40 +1,233 @@
-import { AuthTokens, ApiError } from '@/models/types';
+import { z } from 'zod';
+import { AuthTokens, ApiError, LoginRequest, RefreshTokenRequest } from '@/models/types';
+import { authTokensSchema } from '@/models/schemas';
+import { getJwtExpiry } from '@/lib/jwt';
+import { createTokenStorage } from '@/services/tokenStorage/createTokenStorage';
+import { TokenStorage } from '@/services/tokenStorage/types';
 
-const BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://192.168.1.146:8080';
+export const BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://192.168.1.146:8080';
+
+/**
+ * Older backends read credentials and profile fields from the query string,
+ * where they end up in server and proxy logs. Set VITE_API_LEGACY_QUERY_PARAMS=true
+ * only while talking to one of those; otherwise they are sent as JSON bodies.
+ */
+export const LEGACY_QUERY_PARAMS = import.meta.env.VITE_API_LEGACY_QUERY_PARAMS === 'true';
+
+// Earlier versions kept tokens here in plaintext; they are moved to the token storage once
+const LEGACY_TOKENS_KEY = 'safewalk_tokens';
+const SESSION_CHANNEL = 'safewalk_session';
+const REFRESH_LOCK = 'safewalk_token_refresh';
+// Access tokens are refreshed this long before they expire
+const REFRESH_AHEAD_MS = 60 * 1000;
+const REFRESH_RETRY_MS = 30 * 1000;
+// Longest delay setTimeout supports
+const MAX_TIMER_MS = 2 ** 31 - 1;
+// How long a new tab waits for an open one to share its session
+const SESSION_SYNC_TIMEOUT_MS = 300;
+
+type SessionMessage = { type: 'tokens'; tokens: AuthTokens } | { type: 'logout' } | { type: 'sync-request' };
+
+/**
+ * The backend answered in a shape the app doesn't understand, usually after a
+ * field was renamed or removed on its side. Thrown instead of handing pages
+ * data that would break them later.
+ */
+export class SchemaDriftError extends Error implements ApiError {
+  constructor(
+    readonly endpoint: string,
+    readonly status: number,
+    readonly issues: z.ZodIssue[]
+  ) {
+    super('Unexpected response from the server. Please try again later.');
+    this.name = 'SchemaDriftError';
+  }
+}
+
+export interface RequestOptions<T> extends RequestInit {
+  /** Checks and normalizes the response body; without one it is returned as is */
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+function parseResponse<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown,
+  endpoint: string,
+  status: number
+): T {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  console.warn(`Response from ${endpoint} doesn't match its schema:`, result.error.issues);
+  throw new SchemaDriftError(endpoint, status, result.error.issues);
+}
+
+/** Told whether a session exists after it changed in another tab or a refresh was rejected */
+export type SessionListener = (authenticated: boolean) => void;
+
+function takeLegacyTokens(): AuthTokens | null {
+  try {
+    const tokens = localStorage.getItem(LEGACY_TOKENS_KEY);
+    localStorage.removeItem(LEGACY_TOKENS_KEY);
+    return tokens ? (JSON.parse(tokens) as AuthTokens) : null;
+  } catch {
+    return null;
+  }
+}
 
 class ApiClient {
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
   private isRefreshing = false;
   private refreshPromise: Promise<boolean> | null = null;
+  private refreshTimer: number | null = null;
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<SessionListener>();
+  private onSharedSession: ((tokens: AuthTokens) => void) | null = null;
+  /** Settles once the session from an earlier visit, if any, has been restored */
+  readonly restored: Promise<void>;
 
-  constructor() {
-    this.loadTokens();
+  constructor(private readonly storage: TokenStorage) {
+    this.listenToOtherTabs();
+    this.restored = this.restoreSession();
   }
 
-  private loadTokens() {
-    try {
-      const tokens = localStorage.getItem('safewalk_tokens');
+  private async restoreSession() {
+    const legacyTokens = takeLegacyTokens();
+    if (legacyTokens) await this.storage.save(legacyTokens);
+
+    const tokens =
+      (await this.storage.load()) ?? (this.storage.persistent ? null : await this.askOtherTabsForSession());
+
+    if (tokens) {
+      this.useTokens(tokens);
+    } else if (this.storage.usesRefreshCookie) {
+      // Only the access token was lost with the last page; the cookie may still hold a session
+      await this.refreshAccessToken();
+    }
+  }
+
+  private askOtherTabsForSession(): Promise<AuthTokens | null> {
+    if (!this.channel) return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+      const timeoutId = window.setTimeout(() => {
+        this.onSharedSession = null;
+        resolve(null);
+      }, SESSION_SYNC_TIMEOUT_MS);
+
+      this.onSharedSession = (tokens) => {
+        clearTimeout(timeoutId);
+        this.onSharedSession = null;
+        resolve(tokens);
+      };
+      this.channel.postMessage({ type: 'sync-request' } satisfies SessionMessage);
+    });
+  }
+
+  // Tabs share one session: a login, refresh or logout in one applies to all
+  private listenToOtherTabs() {
+    if (typeof BroadcastChannel === 'undefined') return;
+
+    this.channel = new BroadcastChannel(SESSION_CHANNEL);
+    this.channel.onmessage = (event: MessageEvent<SessionMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'sync-request':
+          if (this.accessToken) this.broadcast({ type: 'tokens', tokens: this.currentTokens() });
+          break;
+        case 'tokens':
+          if (this.onSharedSession) {
+            this.onSharedSession(message.tokens);
+          } else {
+            this.applySession(message.tokens);
+          }
+          break;
+        case 'logout':
+          this.applySession(null);
+          break;
+      }
+    };
+  }
+
+  private broadcast(message: SessionMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  private currentTokens(): AuthTokens {
+    return { accessToken: this.accessToken, refreshToken: this.refreshToken ?? undefined };
+  }
+
+  private useTokens(tokens: AuthTokens | null) {
+    this.accessToken = tokens?.accessToken ?? null;
+    this.refreshToken = tokens?.refreshToken ?? null;
+    this.scheduleRefresh();
+  }
+
+  private applySession(tokens: AuthTokens | null) {
+    this.useTokens(tokens);
+    // Memory-only storage would otherwise lose what another tab handed over
+    if (!this.storage.persistent) {
       if (tokens) {
-        const parsed = JSON.parse(tokens) as AuthTokens;
-        this.accessToken = parsed.accessToken;
-        this.refreshToken = parsed.refreshToken;
+        this.storage.save(tokens);
+      } else {
+        this.storage.clear();
       }
-    } catch {
-      this.clearTokens();
     }
+    this.listeners.forEach((listener) => listener(!!tokens));
+  }
+
+  /** Subscribes to session changes made outside this tab's own calls. Returns an unsubscribe function. */
+  onSessionChange(listener: SessionListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async setTokens(tokens: AuthTokens) {
+    this.useTokens(tokens);
+    this.broadcast({ type: 'tokens', tokens });
+    await this.storage.save(tokens);
+  }
+
+  async clearTokens() {
+    this.useTokens(null);
+    this.broadcast({ type: 'logout' });
+    await this.storage.clear();
+  }
+
+  private canRefresh() {
+    return this.storage.usesRefreshCookie || !!this.refreshToken;
+  }
+
+  private expiresSoon() {
+    const expiresAt = this.accessToken ? getJwtExpiry(this.accessToken) : null;
+    return expiresAt !== null && expiresAt - Date.now() <= REFRESH_AHEAD_MS;
   }
 
-  setTokens(tokens: AuthTokens) {
-    this.accessToken = tokens.accessToken;
-    this.refreshToken = tokens.refreshToken;
-    localStorage.setItem('safewalk_tokens', JSON.stringify(tokens));
+  // Tokens without an exp claim are only refreshed after a 401
+  private scheduleRefresh(delayMs?: number) {
+    if (this.refreshTimer !== null) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    const expiresAt = this.accessToken && this.canRefresh() ? getJwtExpiry(this.accessToken) : null;
+    if (expiresAt === null) return;
+
+    const delay = delayMs ?? Math.min(Math.max(0, expiresAt - REFRESH_AHEAD_MS - Date.now()), MAX_TIMER_MS);
+    this.refreshTimer = window.setTimeout(async () => {
+      this.refreshTimer = null;
+      const refreshed = await this.refreshAccessToken();
+      // A rejected refresh ends the session; anything else is retried
+      if (!refreshed && this.accessToken) this.scheduleRefresh(REFRESH_RETRY_MS);
+    }, delay);
   }
 
-  clearTokens() {
-    this.accessToken = null;
-    this.refreshToken = null;
-    localStorage.removeItem('safewalk_tokens');
+  // Another tab refreshing with the same token at the same time would get it rejected
+  private async withRefreshLock(refresh: () => Promise<boolean>): Promise<boolean> {
+    return navigator.locks ? await navigator.locks.request(REFRESH_LOCK, refresh) : refresh();
   }
 
   getAccessToken() {
@@ -45,52 +238,93 @@ class ApiClient {
     return !!this.accessToken;
   }
 
+  /** Exchanges the refresh token for new tokens. Resolves false when the session is gone. */
+  refreshSession(): Promise<boolean> {
+    return this.refreshAccessToken();
+  }
+
+  private sendRefreshRequest(): Promise<Response> {
+    if (this.storage.usesRefreshCookie) {
+      return fetch(`${BASE_URL}/api/v1/auth/refresh`, { method: 'POST', credentials: 'include' });
+    }
+
+    const body: RefreshTokenRequest = { refreshToken: this.refreshToken };
+    return LEGACY_QUERY_PARAMS
+      ? fetch(`${BASE_URL}/api/v1/auth/refresh?refreshToken=${encodeURIComponent(body.refreshToken)}`, {
+          method: 'POST',
+        })
+      : fetch(`${BASE_URL}/api/v1/auth/refresh`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+  }
+
   private async refreshAccessToken(): Promise<boolean> {
-    if (!this.refreshToken) return false;
+    if (!this.canRefresh()) return false;
 
     if (this.isRefreshing && this.refreshPromise) {
       return this.refreshPromise;
     }
 
     this.isRefreshing = true;
-    this.refreshPromise = (async () => {
+    const staleAccessToken = this.accessToken;
+    this.refreshPromise = this.withRefreshLock(async () => {
+      // Another tab may have refreshed while this one waited for the lock
+      const latest = this.storage.persistent ? await this.storage.load() : this.currentTokens();
+      if (latest?.accessToken && latest.accessToken !== staleAccessToken) {
+        if (latest.accessToken !== this.accessToken) this.applySession(latest);
+        return true;
+      }
+      if (!this.canRefresh()) return false;
+
       try {
-        const response = await fetch(
-          `${BASE_URL}/api/v1/auth/refresh?refreshToken=${encodeURIComponent(this.refreshToken!)}`,
-          { method: 'POST' }
-        );
+        const response = await this.sendRefreshRequest();
 
         if (!response.ok) {
-          this.clearTokens();
+          // Only a rejected refresh token ends the session; server errors may pass
+          const hadSession = !!this.accessToken || !!this.refreshToken;
+          if (hadSession && (response.status === 400 || response.status === 401 || response.status === 403)) {
+            await this.clearTokens();
+            this.listeners.forEach((listener) => listener(false));
+          }
           return false;
         }
 
-        const tokens: AuthTokens = await response.json();
-        this.setTokens(tokens);
+        const tokens = parseResponse(authTokensSchema, await response.json(), '/api/v1/auth/refresh', response.status);
+        await this.setTokens(tokens);
         return true;
       } catch {
-        this.clearTokens();
+        // Offline or an unreadable answer: keep the session and try again later
         return false;
-      } finally {
-        this.isRefreshing = false;
-        this.refreshPromise = null;
       }
-    })();
+    }).finally(() => {
+      this.isRefreshing = false;
+      this.refreshPromise = null;
+    });
 
     return this.refreshPromise;
   }
 
   async request<T>(
     endpoint: string,
-    options: RequestInit = {},
+    options: RequestOptions<T> = {},
     requiresAuth = true,
     retryOnUnauthorized = true
   ): Promise<T> {
+    await this.restored;
+
+    const { schema, ...init } = options;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      ...(options.headers as Record<string, string>),
+      ...(init.headers as Record<string, string>),
     };
 
+    // Timers don't run while the device sleeps, so check expiry before each call too
+    if (requiresAuth && this.expiresSoon()) {
+      await this.refreshAccessToken();
+    }
+
     if (requiresAuth && this.accessToken) {
       headers['Authorization'] = `Bearer ${this.accessToken}`;
     }
@@ -99,7 +333,7 @@ class ApiClient {
 
     try {
       const response = await fetch(url, {
-        ...options,
+        ...init,
         headers,
       });
 
@@ -123,8 +357,9 @@ class ApiClient {
 
       // Handle empty responses
       const text = await response.text();
+      if (schema) return parseResponse(schema, text ? JSON.parse(text) : null, endpoint, response.status);
       if (!text) return {} as T;
-      
+
       return JSON.parse(text) as T;
     } catch (error) {
       if ((error as ApiError).status) {
@@ -136,29 +371,47 @@ class ApiClient {
 
   // Auth endpoints
   async login(email: string, password: string): Promise<AuthTokens> {
-    const tokens = await this.request<AuthTokens>(
-      `/api/v1/auth/login?email=${encodeURIComponent(email)}&password=${encodeURIComponent(password)}`,
-      { method: 'POST' },
+    const credentials: LoginRequest = { email, password };
+    const tokens = await this.request(
+      LEGACY_QUERY_PARAMS
+        ? `/api/v1/auth/login?${new URLSearchParams({ ...credentials }).toString()}`
+        : '/api/v1/auth/login',
+      {
+        method: 'POST',
+        ...(!LEGACY_QUERY_PARAMS && { body: JSON.stringify(credentials) }),
+        schema: authTokensSchema,
+        // Lets the backend set its refresh cookie across origins
+        ...(this.storage.usesRefreshCookie && { credentials: 'include' as const }),
+      },
       false
     );
-    this.setTokens(tokens);
+    await this.setTokens(tokens);
     return tokens;
   }
 
   async register(data: { name: string; email: string; phoneNumber: string; password: string }): Promise<AuthTokens> {
-    const tokens = await this.request<AuthTokens>(
+    const tokens = await this.request(
       '/api/v1/auth/register',
-      { method: 'POST', body: JSON.stringify(data) },
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+        schema: authTokensSchema,
+        ...(this.storage.usesRefreshCookie && { credentials: 'include' as const }),
+      },
       false
     );
-    this.setTokens(tokens);
+    await this.setTokens(tokens);
     return tokens;
   }
 
-  logout() {
-    this.clearTokens();
+  async logout() {
+    if (this.storage.usesRefreshCookie) {
+      // Only the backend can drop an httpOnly cookie
+      await fetch(`${BASE_URL}/api/v1/auth/logout`, { method: 'POST', credentials: 'include' }).catch(() => undefined);
+    }
+    await this.clearTokens();
   }
 }
 
-export const apiClient = new ApiClient();
+export const apiClient = new ApiClient(createTokenStorage());
 export default apiClient;
@@ -0,0 +1,229 @@
+import apiClient, { BASE_URL } from './client';
+import { RealtimeEvent } from '@/models/types';
+import { realtimeEventSchema } from '@/models/schemas';
+
+export type RealtimeTransport = 'websocket' | 'sse';
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export interface RealtimeState {
+  status: RealtimeStatus;
+  transport: RealtimeTransport | null;
+}
+
+type EventListener = (event: RealtimeEvent) => void;
+type StateListener = (state: RealtimeState) => void;
+
+const WS_URL = `${BASE_URL.replace(/^http/, 'ws')}/api/v1/realtime/ws`;
+const SSE_URL = `${BASE_URL}/api/v1/realtime/stream`;
+
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+// After this many WebSocket attempts that never opened, switch to SSE
+const MAX_WS_FAILURES = 2;
+
+class AuthenticationError extends Error {}
+
+/**
+ * Push channel for alerts and location updates. Prefers a WebSocket and falls
+ * back to server-sent events when sockets are blocked. Both transports
+ * authenticate with the current access token and reconnect with backoff.
+ */
+class RealtimeClient {
+  private state: RealtimeState = { status: 'idle', transport: null };
+  private eventListeners = new Set<EventListener>();
+  private stateListeners = new Set<StateListener>();
+  private users = 0;
+  private attempt = 0;
+  private wsFailures = 0;
+  private socket: WebSocket | null = null;
+  private sseAbort: AbortController | null = null;
+  private reconnectTimer: number | null = null;
+
+  /** Opens the channel while at least one caller holds it. Returns a release function. */
+  retain() {
+    this.users += 1;
+    if (this.users === 1) this.connect();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.users -= 1;
+      if (this.users === 0) this.disconnect();
+    };
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  subscribe(listener: EventListener) {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  subscribeState(listener: StateListener) {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  private connect() {
+    if (!apiClient.getAccessToken()) {
+      this.setState({ status: 'idle', transport: null });
+      return;
+    }
+
+    this.setState({ status: this.attempt === 0 ? 'connecting' : 'reconnecting', transport: this.state.transport });
+    if (this.wsFailures < MAX_WS_FAILURES && typeof WebSocket !== 'undefined') {
+      this.connectWebSocket();
+    } else {
+      this.connectEventStream();
+    }
+  }
+
+  private connectWebSocket() {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(WS_URL);
+    } catch (err) {
+      // A bad URL or mixed content throws here instead of firing close, and would again on every retry
+      console.warn('WebSocket could not be created, using the event stream:', err);
+      this.wsFailures = MAX_WS_FAILURES;
+      this.connectEventStream();
+      return;
+    }
+    let opened = false;
+    this.socket = socket;
+
+    socket.onopen = () => {
+      opened = true;
+      // Browsers can't set headers on a WebSocket, so the token goes in the first frame
+      socket.send(JSON.stringify({ type: 'AUTH', token: apiClient.getAccessToken() }));
+      this.handleOpen('websocket');
+    };
+    socket.onmessage = (message) => this.dispatch(message.data);
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (!opened) this.wsFailures += 1;
+      // 4401 is the server's "token rejected" close code
+      this.scheduleReconnect(event.code === 4401);
+    };
+  }
+
+  // EventSource can't send an Authorization header, so the stream is read with fetch instead
+  private async connectEventStream() {
+    const abort = new AbortController();
+    this.sseAbort = abort;
+
+    try {
+      const response = await fetch(SSE_URL, {
+        headers: {
+          Accept: 'text/event-stream',
+          Authorization: `Bearer ${apiClient.getAccessToken()}`,
+        },
+        signal: abort.signal,
+      });
+
+      if (response.status === 401) throw new AuthenticationError();
+      if (!response.ok || !response.body) throw new Error(`Event stream failed: ${response.status}`);
+
+      this.handleOpen('sse');
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const frames = buffer.split(/\r?\n\r?\n/);
+        buffer = frames.pop() ?? '';
+        frames.forEach((frame) => {
+          const data = frame
+            .split(/\r?\n/)
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).trimStart())
+            .join('\n');
+          if (data) this.dispatch(data);
+        });
+      }
+      throw new Error('Event stream closed');
+    } catch (err) {
+      if (this.sseAbort !== abort) return;
+      this.sseAbort = null;
+      this.scheduleReconnect(err instanceof AuthenticationError);
+    }
+  }
+
+  private handleOpen(transport: RealtimeTransport) {
+    this.attempt = 0;
+    this.setState({ status: 'open', transport });
+  }
+
+  private async scheduleReconnect(unauthorized: boolean) {
+    if (this.users === 0) return;
+
+    if (unauthorized && !(await apiClient.refreshSession())) {
+      this.setState({ status: 'idle', transport: null });
+      return;
+    }
+
+    const backoff = Math.min(MAX_BACKOFF_MS, MIN_BACKOFF_MS * 2 ** this.attempt);
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    this.attempt += 1;
+    this.setState({ status: 'reconnecting', transport: this.state.transport });
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.users > 0) this.connect();
+    }, delay);
+  }
+
+  private disconnect() {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+
+    const abort = this.sseAbort;
+    this.sseAbort = null;
+    abort?.abort();
+
+    this.attempt = 0;
+    this.setState({ status: 'idle', transport: null });
+  }
+
+  private dispatch(data: string) {
+    let message: { type?: unknown };
+    try {
+      message = JSON.parse(data);
+    } catch {
+      console.warn('Ignoring malformed realtime message');
+      return;
+    }
+    if (message?.type !== 'ALERT' && message?.type !== 'LOCATION_UPDATE') return;
+
+    const result = realtimeEventSchema.safeParse(message);
+    if (!result.success) {
+      console.warn(`Ignoring ${message.type} message that doesn't match its schema:`, result.error.issues);
+      return;
+    }
+    this.eventListeners.forEach((listener) => listener(result.data));
+  }
+
+  private setState(state: RealtimeState) {
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+}
+
+export const realtimeClient = new RealtimeClient();
+export default realtimeClient;
@@ -1,21 +1,25 @@
+import { z } from 'zod';
 import apiClient from './client';
-import { SavedLocationRequest, SavedLocationResponse } from '@/models/types';
+import { SavedLocationRequest } from '@/models/types';
+import { savedLocationResponseSchema } from '@/models/schemas';
 
 export const savedLocationsApi = {
-  list: () => apiClient.request<SavedLocationResponse[]>('/api/v1/saved-locations'),
+  list: () => apiClient.request('/api/v1/saved-locations', { schema: z.array(savedLocationResponseSchema) }),
 
-  get: (id: string) => apiClient.request<SavedLocationResponse>(`/api/v1/saved-locations/${id}`),
+  get: (id: string) => apiClient.request(`/api/v1/saved-locations/${id}`, { schema: savedLocationResponseSchema }),
 
   create: (data: SavedLocationRequest) =>
-    apiClient.request<SavedLocationResponse>('/api/v1/saved-locations', {
+    apiClient.request('/api/v1/saved-locations', {
       method: 'POST',
       body: JSON.stringify(data),
+      schema: savedLocationResponseSchema,
     }),
 
   update: (id: string, data: SavedLocationRequest) =>
-    apiClient.request<SavedLocationResponse>(`/api/v1/saved-locations/${id}`, {
+    apiClient.request(`/api/v1/saved-locations/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
+      schema: savedLocationResponseSchema,
     }),
 
   delete: (id: string) =>
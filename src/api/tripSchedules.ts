@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import apiClient from './client';
+import { TripScheduleRequest } from '@/models/types';
+import { tripScheduleResponseSchema } from '@/models/schemas';
+
+export const tripSchedulesApi = {
+  list: () => apiClient.request('/api/v1/trip-schedules', { schema: z.array(tripScheduleResponseSchema) }),
+
+  get: (id: string) => apiClient.request(`/api/v1/trip-schedules/${id}`, { schema: tripScheduleResponseSchema }),
+
+  create: (data: TripScheduleRequest) =>
+    apiClient.request('/api/v1/trip-schedules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      schema: tripScheduleResponseSchema,
+    }),
+
+  update: (id: string, data: TripScheduleRequest) =>
+    apiClient.request(`/api/v1/trip-schedules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      schema: tripScheduleResponseSchema,
+    }),
+
+  delete: (id: string) =>
+    apiClient.request<void>(`/api/v1/trip-schedules/${id}`, { method: 'DELETE' }),
+};
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import apiClient from './client';
+import { TripTemplateRequest } from '@/models/types';
+import { tripTemplateResponseSchema } from '@/models/schemas';
+
+export const tripTemplatesApi = {
+  list: () => apiClient.request('/api/v1/trip-templates', { schema: z.array(tripTemplateResponseSchema) }),
+
+  create: (data: TripTemplateRequest) =>
+    apiClient.request('/api/v1/trip-templates', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      schema: tripTemplateResponseSchema,
+    }),
+
+  update: (id: string, data: TripTemplateRequest) =>
+    apiClient.request(`/api/v1/trip-templates/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      schema: tripTemplateResponseSchema,
+    }),
+
+  delete: (id: string) =>
+    apiClient.request<void>(`/api/v1/trip-templates/${id}`, { method: 'DELETE' }),
+};
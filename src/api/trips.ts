@@ -1,28 +1,68 @@
+import { z } from 'zod';
 import apiClient from './client';
-import { StartTripRequest, TripResponse, LocationUpdateRequest, LocationUpdateResponse } from '@/models/types';
+import {
+  StartTripRequest,
+  LocationUpdateRequest,
+  ExtendTripRequest,
+  PauseTripRequest,
+  ResumeTripRequest,
+} from '@/models/types';
+import { locationUpdateResponseSchema, routePointSchema, tripResponseSchema } from '@/models/schemas';
 
 export const tripsApi = {
   start: (data: StartTripRequest) =>
-    apiClient.request<TripResponse>('/api/v1/trips/start', {
+    apiClient.request('/api/v1/trips/start', {
       method: 'POST',
       body: JSON.stringify(data),
+      schema: tripResponseSchema,
     }),
 
-  getActive: () => apiClient.request<TripResponse | null>('/api/v1/trips/active'),
+  getActive: () => apiClient.request('/api/v1/trips/active', { schema: tripResponseSchema.nullable() }),
 
-  getHistory: () => apiClient.request<TripResponse[]>('/api/v1/trips/history'),
+  getHistory: () => apiClient.request('/api/v1/trips/history', { schema: z.array(tripResponseSchema) }),
 
-  get: (id: string) => apiClient.request<TripResponse>(`/api/v1/trips/${id}`),
+  get: (id: string) => apiClient.request(`/api/v1/trips/${id}`, { schema: tripResponseSchema }),
 
   updateLocation: (tripId: string, data: LocationUpdateRequest) =>
-    apiClient.request<LocationUpdateResponse>(`/api/v1/trips/${tripId}/location`, {
+    apiClient.request(`/api/v1/trips/${tripId}/location`, {
       method: 'POST',
       body: JSON.stringify(data),
+      schema: locationUpdateResponseSchema,
+    }),
+
+  getRoute: (tripId: string) =>
+    apiClient.request(`/api/v1/trips/${tripId}/route`, { schema: z.array(routePointSchema) }),
+
+  arriveAtWaypoint: (tripId: string, waypointId: string) =>
+    apiClient.request(`/api/v1/trips/${tripId}/waypoints/${waypointId}/arrive`, {
+      method: 'PUT',
+      schema: tripResponseSchema,
+    }),
+
+  extend: (tripId: string, data: ExtendTripRequest) =>
+    apiClient.request(`/api/v1/trips/${tripId}/extend`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      schema: tripResponseSchema,
+    }),
+
+  pause: (tripId: string, data: PauseTripRequest) =>
+    apiClient.request(`/api/v1/trips/${tripId}/pause`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      schema: tripResponseSchema,
+    }),
+
+  resume: (tripId: string, data: ResumeTripRequest = {}) =>
+    apiClient.request(`/api/v1/trips/${tripId}/resume`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      schema: tripResponseSchema,
     }),
 
   complete: (tripId: string) =>
-    apiClient.request<TripResponse>(`/api/v1/trips/${tripId}/complete`, { method: 'PUT' }),
+    apiClient.request(`/api/v1/trips/${tripId}/complete`, { method: 'PUT', schema: tripResponseSchema }),
 
   cancel: (tripId: string) =>
-    apiClient.request<TripResponse>(`/api/v1/trips/${tripId}/cancel`, { method: 'PUT' }),
+    apiClient.request(`/api/v1/trips/${tripId}/cancel`, { method: 'PUT', schema: tripResponseSchema }),
 };
@@ -1,21 +1,25 @@
+import { z } from 'zod';
 import apiClient from './client';
-import { TrustedContactRequest, TrustedContactResponse } from '@/models/types';
+import { TrustedContactRequest } from '@/models/types';
+import { trustedContactResponseSchema } from '@/models/schemas';
 
 export const trustedContactsApi = {
-  list: () => apiClient.request<TrustedContactResponse[]>('/api/v1/trusted-contacts'),
+  list: () => apiClient.request('/api/v1/trusted-contacts', { schema: z.array(trustedContactResponseSchema) }),
 
-  get: (id: string) => apiClient.request<TrustedContactResponse>(`/api/v1/trusted-contacts/${id}`),
+  get: (id: string) => apiClient.request(`/api/v1/trusted-contacts/${id}`, { schema: trustedContactResponseSchema }),
 
   create: (data: TrustedContactRequest) =>
-    apiClient.request<TrustedContactResponse>('/api/v1/trusted-contacts', {
+    apiClient.request('/api/v1/trusted-contacts', {
       method: 'POST',
       body: JSON.stringify(data),
+      schema: trustedContactResponseSchema,
     }),
 
   update: (id: string, data: TrustedContactRequest) =>
-    apiClient.request<TrustedContactResponse>(`/api/v1/trusted-contacts/${id}`, {
+    apiClient.request(`/api/v1/trusted-contacts/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
+      schema: trustedContactResponseSchema,
     }),
 
   delete: (id: string) =>
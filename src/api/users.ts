@@ -1,14 +1,25 @@
-import apiClient from './client';
-import { UserResponse, UpdateUserRequest } from '@/models/types';
+import apiClient, { LEGACY_QUERY_PARAMS } from './client';
+import { UpdateUserRequest } from '@/models/types';
+import { userResponseSchema } from '@/models/schemas';
 
 export const usersApi = {
-  getMe: () => apiClient.request<UserResponse>('/api/v1/users/me'),
+  getMe: () => apiClient.request('/api/v1/users/me', { schema: userResponseSchema }),
 
   updateMe: (data: UpdateUserRequest) => {
-    const params = new URLSearchParams();
-    if (data.name) params.append('name', data.name);
-    if (data.phoneNumber) params.append('phoneNumber', data.phoneNumber);
-    return apiClient.request<UserResponse>(`/api/v1/users/me?${params.toString()}`, { method: 'PUT' });
+    const changes: UpdateUserRequest = {
+      ...(data.name && { name: data.name }),
+      ...(data.phoneNumber && { phoneNumber: data.phoneNumber }),
+    };
+
+    if (LEGACY_QUERY_PARAMS) {
+      const params = new URLSearchParams({ ...changes });
+      return apiClient.request(`/api/v1/users/me?${params.toString()}`, { method: 'PUT', schema: userResponseSchema });
+    }
+    return apiClient.request('/api/v1/users/me', {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+      schema: userResponseSchema,
+    });
   },
 
   deleteMe: () => apiClient.request<void>('/api/v1/users/me', { method: 'DELETE' }),
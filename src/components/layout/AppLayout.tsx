@@ -1,10 +1,18 @@
-import { Outlet } from 'react-router-dom';
+import { Outlet, useLocation } from 'react-router-dom';
 import { MobileNav } from './MobileNav';
+import { SosButton } from '@/components/sos/SosButton';
+import { useScheduleReminders } from '@/hooks/use-schedule-reminders';
 
 export function AppLayout() {
+  const location = useLocation();
+  useScheduleReminders();
+  // The active trip page has its own SOS button in the action bar
+  const showSos = location.pathname !== '/trips/active';
+
   return (
     <div className="min-h-screen bg-background pb-20">
       <Outlet />
+      {showSos && <SosButton />}
       <MobileNav />
     </div>
   );
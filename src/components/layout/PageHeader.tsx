@@ -7,6 +7,8 @@ interface PageHeaderProps {
   subtitle?: string;
   showBack?: boolean;
   backPath?: string;
+  /** Router state handed to backPath, e.g. a form draft to restore */
+  backState?: unknown;
   rightAction?: React.ReactNode;
   gradient?: boolean;
 }
@@ -16,6 +18,7 @@ export function PageHeader({
   subtitle,
   showBack,
   backPath,
+  backState,
   rightAction,
   gradient = false,
 }: PageHeaderProps) {
@@ -23,7 +26,7 @@ export function PageHeader({
 
   const handleBack = () => {
     if (backPath) {
-      navigate(backPath);
+      navigate(backPath, { state: backState });
     } else {
       navigate(-1);
     }
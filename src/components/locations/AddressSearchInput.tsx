@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Loader2, MapPin } from 'lucide-react';
+import { FormTextInput } from '@/components/shared/FormTextInput';
+import { useAddressSearch } from '@/hooks/use-address-search';
+import { getGeocoder } from '@/services/geocoding/createGeocoder';
+import { GeocodeResult } from '@/services/geocoding/types';
+
+interface AddressSearchInputProps {
+  label: string;
+  value: string;
+  placeholder?: string;
+  error?: string;
+  helpText?: string;
+  onChange: (value: string) => void;
+  onSelect: (result: GeocodeResult) => void;
+}
+
+/**
+ * Address field with search suggestions. Local geocoders suggest as the user
+ * types; ones that send queries off the device search only when Enter is
+ * pressed. Addresses filled in from the map never open the list, and without
+ * a geocoder this is a plain text field.
+ */
+export function AddressSearchInput({
+  label,
+  value,
+  placeholder,
+  error,
+  helpText,
+  onChange,
+  onSelect,
+}: AddressSearchInputProps) {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  const geocoder = getGeocoder();
+  const searchOnSubmit = !!geocoder && !geocoder.typeAhead;
+  const search = useAddressSearch(isOpen ? query : '', attempt);
+
+  const handleSelect = (result: GeocodeResult) => {
+    setIsOpen(false);
+    setQuery('');
+    onSelect(result);
+  };
+
+  const showList = isOpen && (search.isSearching || search.results.length > 0 || !!search.error);
+
+  return (
+    <div className="relative">
+      <FormTextInput
+        label={label}
+        value={value}
+        placeholder={placeholder}
+        autoComplete="off"
+        error={error}
+        helpText={helpText ?? (searchOnSubmit ? 'Press Enter to search' : undefined)}
+        enterKeyHint={searchOnSubmit ? 'search' : undefined}
+        onChange={(e) => {
+          onChange(e.target.value);
+          if (searchOnSubmit) {
+            setIsOpen(false);
+          } else {
+            setQuery(e.target.value);
+            setIsOpen(!!geocoder);
+          }
+        }}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setIsOpen(false);
+          if (e.key !== 'Enter') return;
+
+          if (isOpen && search.results.length > 0) {
+            e.preventDefault();
+            handleSelect(search.results[0]);
+          } else if (searchOnSubmit && value.trim()) {
+            e.preventDefault();
+            setQuery(value);
+            setAttempt((n) => n + 1);
+            setIsOpen(true);
+          }
+        }}
+      />
+
+      {showList && (
+        <div className="absolute left-0 right-0 mt-1 z-[500] rounded-xl border-2 border-border bg-card shadow-lg overflow-hidden">
+          {search.isSearching && search.results.length === 0 && (
+            <div className="flex items-center gap-2 px-4 py-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </div>
+          )}
+          {search.error && <p className="px-4 py-3 text-sm text-destructive">{search.error}</p>}
+          {search.results.map((result) => (
+            <button
+              key={`${result.latitude},${result.longitude}`}
+              type="button"
+              // Keeps focus in the input so the list isn't closed before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleSelect(result)}
+              className="w-full flex items-start gap-3 px-4 py-3 text-left text-sm hover:bg-accent transition-colors"
+            >
+              <MapPin className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
+              <span className="text-foreground">{result.label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { Fragment, useEffect, useRef, useState } from 'react';
+import { Circle, Marker, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import { latLngBounds } from 'leaflet';
+import { AlertTriangle, LocateFixed } from 'lucide-react';
+import { MapView } from './MapView';
+import {
+  DETAIL_ZOOM,
+  offRoutePositionIcon,
+  MUTED_COLOR,
+  pinIcon,
+  positionIcon,
+  PRIMARY_COLOR,
+  startIcon,
+  stopIcon,
+  WARNING_COLOR,
+} from './mapConfig';
+import { Coordinates } from '@/lib/geo';
+import { LocationFix } from '@/services/location/types';
+
+interface LiveTripMapProps {
+  start: Coordinates | null;
+  destination: Coordinates;
+  radiusMeters: number;
+  fix: LocationFix | null;
+  trail: Coordinates[];
+  isOnTrack: boolean;
+  waypoints?: LiveTripWaypoint[];
+}
+
+export interface LiveTripWaypoint extends Coordinates {
+  radiusMeters: number;
+  reached: boolean;
+}
+
+const toLatLng = (point: Coordinates): [number, number] => [point.latitude, point.longitude];
+
+// Keeps the walker on screen until the user pans away, and again after "recenter"
+function FollowPosition({
+  position,
+  isFollowing,
+  onStopFollowing,
+}: {
+  position: [number, number] | null;
+  isFollowing: boolean;
+  onStopFollowing: () => void;
+}) {
+  const map = useMap();
+
+  useMapEvents({ dragstart: onStopFollowing });
+
+  useEffect(() => {
+    if (isFollowing && position) map.panTo(position);
+  }, [map, isFollowing]);
+
+  useEffect(() => {
+    if (isFollowing && position && !map.getBounds().pad(-0.2).contains(position)) {
+      map.panTo(position);
+    }
+  }, [map, position?.[0], position?.[1]]);
+
+  return null;
+}
+
+function FitTrip({ points }: { points: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    map.fitBounds(latLngBounds(points), { padding: [32, 32], maxZoom: DETAIL_ZOOM });
+  }, [map]);
+
+  return null;
+}
+
+/**
+ * Live view of an active trip: start, destination geofence, current position
+ * with its accuracy and the path walked so far. Once the backend reports the
+ * walker off route, the trail from that point on is drawn as a deviation.
+ * Waypoints of multi-stop trips are numbered in visiting order.
+ */
+export function LiveTripMap({
+  start,
+  destination,
+  radiusMeters,
+  fix,
+  trail,
+  isOnTrack,
+  waypoints = [],
+}: LiveTripMapProps) {
+  const [isFollowing, setIsFollowing] = useState(true);
+  const deviationStartRef = useRef<number | null>(null);
+
+  if (isOnTrack) {
+    deviationStartRef.current = null;
+  } else if (deviationStartRef.current === null) {
+    deviationStartRef.current = Math.max(0, trail.length - 1);
+  }
+
+  const deviationStart = deviationStartRef.current;
+  const path = trail.map(toLatLng);
+  const onRoutePath = deviationStart === null ? path : path.slice(0, deviationStart + 1);
+  const deviationPath = deviationStart === null ? [] : path.slice(deviationStart);
+  const position = fix ? toLatLng(fix) : null;
+  if (position && deviationPath.length > 0) deviationPath.push(position);
+
+  const initialBounds = [
+    toLatLng(destination),
+    ...waypoints.map(toLatLng),
+    ...(start ? [toLatLng(start)] : []),
+    ...(position ? [position] : []),
+  ];
+
+  return (
+    <div className="relative">
+      <MapView className="h-64">
+        <FitTrip points={initialBounds} />
+        <FollowPosition position={position} isFollowing={isFollowing} onStopFollowing={() => setIsFollowing(false)} />
+
+        <Circle
+          center={toLatLng(destination)}
+          radius={radiusMeters}
+          pathOptions={{ color: PRIMARY_COLOR, fillOpacity: 0.12, weight: 2, dashArray: '6 6' }}
+        />
+        <Marker position={toLatLng(destination)} icon={pinIcon} />
+        {start && <Marker position={toLatLng(start)} icon={startIcon} />}
+        {waypoints.map((waypoint, index) => (
+          <Fragment key={index}>
+            <Circle
+              center={toLatLng(waypoint)}
+              radius={waypoint.radiusMeters}
+              pathOptions={{
+                color: waypoint.reached ? MUTED_COLOR : PRIMARY_COLOR,
+                fillOpacity: 0.08,
+                weight: 1.5,
+                dashArray: '4 6',
+              }}
+            />
+            <Marker position={toLatLng(waypoint)} icon={stopIcon(index + 1, waypoint.reached)} />
+          </Fragment>
+        ))}
+
+        <Polyline positions={onRoutePath} pathOptions={{ color: PRIMARY_COLOR, weight: 5 }} />
+        {deviationPath.length > 1 && (
+          <Polyline positions={deviationPath} pathOptions={{ color: WARNING_COLOR, weight: 6 }} />
+        )}
+
+        {fix && (
+          <>
+            {fix.accuracy != null && (
+              <Circle
+                center={position}
+                radius={fix.accuracy}
+                pathOptions={{
+                  color: isOnTrack ? PRIMARY_COLOR : WARNING_COLOR,
+                  fillOpacity: 0.1,
+                  weight: 1,
+                }}
+              />
+            )}
+            <Marker position={position} icon={isOnTrack ? positionIcon : offRoutePositionIcon} />
+          </>
+        )}
+      </MapView>
+
+      {!isOnTrack && (
+        <div className="absolute top-3 left-3 z-[400] flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-warning text-warning-foreground text-sm font-semibold shadow-lg">
+          <AlertTriangle className="h-4 w-4" />
+          Off route
+        </div>
+      )}
+
+      {!isFollowing && position && (
+        <button
+          type="button"
+          onClick={() => setIsFollowing(true)}
+          aria-label="Recenter on my position"
+          className="absolute top-3 right-3 z-[400] p-2.5 rounded-xl bg-card text-primary shadow-lg border border-border hover:bg-accent transition-colors"
+        >
+          <LocateFixed className="h-5 w-5" />
+        </button>
+      )}
+    </div>
+  );
+}
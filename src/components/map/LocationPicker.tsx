@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Circle, Marker, useMap, useMapEvents } from 'react-leaflet';
+import { LocateFixed, Loader2 } from 'lucide-react';
+import { MapView } from './MapView';
+import { DETAIL_ZOOM, handleIcon, pinIcon, PRIMARY_COLOR } from './mapConfig';
+import { Coordinates, haversineMeters, offsetMeters } from '@/lib/geo';
+import { GeolocationProvider } from '@/services/location/geolocationProvider';
+import { LocationError } from '@/services/location/types';
+
+interface LocationPickerProps {
+  value: Coordinates | null;
+  radiusMeters: number;
+  onChange: (coordinates: Coordinates) => void;
+  onRadiusChange: (radiusMeters: number) => void;
+  /** Called with device coordinates after a successful "locate me" */
+  onLocate?: (coordinates: Coordinates) => void;
+  onError?: (message: string) => void;
+  minRadius?: number;
+  maxRadius?: number;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(6));
+
+function ClickToPlace({ onPlace }: { onPlace: (coordinates: Coordinates) => void }) {
+  useMapEvents({
+    click: (event) => onPlace({ latitude: round(event.latlng.lat), longitude: round(event.latlng.lng) }),
+  });
+  return null;
+}
+
+// Brings the pin into view when it is moved from outside the map (typed in, located)
+function KeepInView({ value }: { value: Coordinates | null }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!value) return;
+    const point: [number, number] = [value.latitude, value.longitude];
+    if (!map.getBounds().contains(point)) {
+      map.setView(point, Math.max(map.getZoom(), DETAIL_ZOOM));
+    }
+  }, [map, value?.latitude, value?.longitude]);
+
+  return null;
+}
+
+/**
+ * Map for choosing a saved location: tap or drag to place the pin, drag the
+ * handle on the circle to resize the geofence.
+ */
+export function LocationPicker({
+  value,
+  radiusMeters,
+  onChange,
+  onRadiusChange,
+  onLocate,
+  onError,
+  minRadius = 10,
+  maxRadius = 10000,
+}: LocationPickerProps) {
+  const [isLocating, setIsLocating] = useState(false);
+
+  const handlePosition = useMemo(() => {
+    if (!value) return null;
+    const handle = offsetMeters(value, radiusMeters, 0);
+    return [handle.latitude, handle.longitude] as [number, number];
+  }, [value?.latitude, value?.longitude, radiusMeters]);
+
+  const handleLocate = async () => {
+    setIsLocating(true);
+    try {
+      const fix = await new GeolocationProvider().getCurrentFix();
+      const coordinates = { latitude: round(fix.latitude), longitude: round(fix.longitude) };
+      onChange(coordinates);
+      onLocate?.(coordinates);
+    } catch (err) {
+      onError?.((err as LocationError).message || 'Could not get your location');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <MapView
+        center={value ? [value.latitude, value.longitude] : undefined}
+        zoom={value ? DETAIL_ZOOM : undefined}
+        className="h-72"
+      >
+        <ClickToPlace onPlace={onChange} />
+        <KeepInView value={value} />
+
+        {value && (
+          <>
+            <Circle
+              center={[value.latitude, value.longitude]}
+              radius={radiusMeters}
+              pathOptions={{ color: PRIMARY_COLOR, fillOpacity: 0.15, weight: 2 }}
+            />
+            <Marker
+              position={[value.latitude, value.longitude]}
+              icon={pinIcon}
+              draggable
+              eventHandlers={{
+                dragend: (event) => {
+                  const { lat, lng } = event.target.getLatLng();
+                  onChange({ latitude: round(lat), longitude: round(lng) });
+                },
+              }}
+            />
+            <Marker
+              position={handlePosition}
+              icon={handleIcon}
+              draggable
+              eventHandlers={{
+                drag: (event) => {
+                  const { lat, lng } = event.target.getLatLng();
+                  const radius = Math.round(haversineMeters(value, { latitude: lat, longitude: lng }));
+                  onRadiusChange(Math.min(maxRadius, Math.max(minRadius, radius)));
+                },
+              }}
+            />
+          </>
+        )}
+      </MapView>
+
+      <button
+        type="button"
+        onClick={handleLocate}
+        disabled={isLocating}
+        aria-label="Locate me"
+        className="absolute top-3 right-3 z-[400] p-2.5 rounded-xl bg-card text-primary shadow-lg border border-border hover:bg-accent transition-colors disabled:opacity-60"
+      >
+        {isLocating ? <Loader2 className="h-5 w-5 animate-spin" /> : <LocateFixed className="h-5 w-5" />}
+      </button>
+
+      {!value && (
+        <p className="absolute bottom-3 left-3 right-3 z-[400] text-center text-sm font-medium px-3 py-2 rounded-xl bg-card/90 text-foreground shadow">
+          Tap the map to drop a pin
+        </p>
+      )}
+    </div>
+  );
+}
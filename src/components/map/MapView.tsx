@@ -0,0 +1,42 @@
+import 'leaflet/dist/leaflet.css';
+import { useEffect } from 'react';
+import { MapContainer, TileLayer, useMap } from 'react-leaflet';
+import { LatLngExpression } from 'leaflet';
+import { DEFAULT_CENTER, DEFAULT_ZOOM, TILE_ATTRIBUTION, TILE_MAX_ZOOM, TILE_URL } from './mapConfig';
+import { cn } from '@/lib/utils';
+
+interface MapViewProps {
+  center?: LatLngExpression;
+  zoom?: number;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+// Leaflet measures its container once; maps inside sheets and dialogs need a nudge when it resizes
+function TrackContainerSize() {
+  const map = useMap();
+
+  useEffect(() => {
+    const observer = new ResizeObserver(() => map.invalidateSize());
+    observer.observe(map.getContainer());
+    return () => observer.disconnect();
+  }, [map]);
+
+  return null;
+}
+
+/** Base map with the configured tile source. Children are react-leaflet layers. */
+export function MapView({ center = DEFAULT_CENTER, zoom = DEFAULT_ZOOM, className, children }: MapViewProps) {
+  return (
+    <MapContainer
+      center={center}
+      zoom={zoom}
+      maxZoom={TILE_MAX_ZOOM}
+      className={cn('h-64 w-full rounded-xl border-2 border-border overflow-hidden z-0', className)}
+    >
+      <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} maxZoom={TILE_MAX_ZOOM} />
+      <TrackContainerSize />
+      {children}
+    </MapContainer>
+  );
+}
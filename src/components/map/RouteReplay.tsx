@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Marker, Polyline, Popup, useMap } from 'react-leaflet';
+import { latLngBounds } from 'leaflet';
+import { Pause, Play } from 'lucide-react';
+import { MapView } from './MapView';
+import { alertIcon, MUTED_COLOR, pinIcon, positionIcon, PRIMARY_COLOR, startIcon } from './mapConfig';
+import { Slider } from '@/components/ui/slider';
+import { Coordinates, interpolate } from '@/lib/geo';
+import { AlertType, RoutePoint } from '@/models/types';
+import { formatTime } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+
+export interface RouteAlertMarker {
+  id: string;
+  type: AlertType;
+  message: string;
+  firedAt: Date | null;
+  latitude?: number;
+  longitude?: number;
+}
+
+interface RouteReplayProps {
+  route: RoutePoint[];
+  alerts: RouteAlertMarker[];
+  destination: Coordinates;
+}
+
+// A full replay takes this many ticks regardless of how long the trip was
+const REPLAY_STEPS = 200;
+const REPLAY_TICK_MS = 100;
+
+const toLatLng = (point: Coordinates): [number, number] => [point.latitude, point.longitude];
+
+function FitRoute({ points }: { points: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length > 0) {
+      map.fitBounds(latLngBounds(points), { padding: [24, 24], maxZoom: 17 });
+    }
+  }, [map]);
+
+  return null;
+}
+
+/** Where the walker was at a given time, interpolated between recorded points. */
+function positionAt(route: RoutePoint[], times: number[], time: number): { index: number; position: Coordinates } {
+  let index = 0;
+  while (index < times.length - 1 && times[index + 1] <= time) index++;
+
+  const next = route[index + 1];
+  if (!next || time <= times[index]) return { index, position: route[index] };
+
+  const fraction = (time - times[index]) / (times[index + 1] - times[index]);
+  return { index, position: interpolate(route[index], next, fraction) };
+}
+
+/**
+ * Draws a recorded trip and replays it along a timeline, showing where each
+ * alert fired.
+ */
+export function RouteReplay({ route, alerts, destination }: RouteReplayProps) {
+  const times = useMemo(() => route.map((point) => new Date(point.timestamp).getTime()), [route]);
+  const startTime = times[0];
+  const endTime = times[times.length - 1];
+  const duration = Math.max(1, endTime - startTime);
+
+  const [currentTime, setCurrentTime] = useState(endTime);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    setCurrentTime(endTime);
+    setIsPlaying(false);
+  }, [endTime]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setCurrentTime((time) => Math.min(endTime, time + duration / REPLAY_STEPS));
+    }, REPLAY_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, duration, endTime]);
+
+  useEffect(() => {
+    if (isPlaying && currentTime >= endTime) setIsPlaying(false);
+  }, [isPlaying, currentTime, endTime]);
+
+  const fullPath = useMemo(() => route.map(toLatLng), [route]);
+  const { index, position } = positionAt(route, times, currentTime);
+  const travelledPath = [...fullPath.slice(0, index + 1), toLatLng(position)];
+
+  // Alerts without coordinates are placed where the walker was when they fired
+  const alertMarkers = alerts.map((alert) => {
+    const time = alert.firedAt?.getTime();
+    const location =
+      alert.latitude != null && alert.longitude != null
+        ? { latitude: alert.latitude, longitude: alert.longitude }
+        : time != null
+        ? positionAt(route, times, time).position
+        : null;
+    return { ...alert, time, location, hasFired: time == null || time <= currentTime };
+  });
+
+  const handlePlay = () => {
+    if (currentTime >= endTime) setCurrentTime(startTime);
+    setIsPlaying((playing) => !playing);
+  };
+
+  const percentOf = (time: number) => ((time - startTime) / duration) * 100;
+
+  return (
+    <div className="space-y-4">
+      <MapView className="h-72">
+        <FitRoute points={[...fullPath, toLatLng(destination)]} />
+        <Polyline positions={fullPath} pathOptions={{ color: MUTED_COLOR, weight: 4, opacity: 0.4 }} />
+        <Polyline positions={travelledPath} pathOptions={{ color: PRIMARY_COLOR, weight: 5 }} />
+        <Marker position={fullPath[0]} icon={startIcon} />
+        <Marker position={toLatLng(destination)} icon={pinIcon} />
+        {alertMarkers
+          .filter((alert) => alert.location)
+          .map((alert) => (
+            <Marker
+              key={alert.id}
+              position={toLatLng(alert.location)}
+              icon={alertIcon(alert.hasFired)}
+              eventHandlers={{ click: () => alert.time != null && setCurrentTime(alert.time) }}
+            >
+              <Popup>
+                <strong>{alert.type}</strong>
+                {alert.firedAt && ` • ${formatTime(alert.firedAt)}`}
+                <br />
+                {alert.message}
+              </Popup>
+            </Marker>
+          ))}
+        <Marker position={toLatLng(position)} icon={positionIcon} />
+      </MapView>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handlePlay}
+          aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+          className="w-10 h-10 rounded-xl bg-primary text-primary-foreground flex items-center justify-center flex-shrink-0"
+        >
+          {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+        </button>
+
+        <div className="flex-1 min-w-0">
+          <div className="relative">
+            <Slider
+              min={startTime}
+              max={startTime + duration}
+              step={1000}
+              value={[currentTime]}
+              onValueChange={([time]) => {
+                setIsPlaying(false);
+                setCurrentTime(time);
+              }}
+              aria-label="Replay position"
+            />
+            {alertMarkers
+              .filter((alert) => alert.time != null && alert.time >= startTime && alert.time <= endTime)
+              .map((alert) => (
+                <span
+                  key={alert.id}
+                  title={alert.type}
+                  className={cn(
+                    'absolute -top-2 w-1 h-2 rounded-full -translate-x-1/2 pointer-events-none',
+                    alert.hasFired ? 'bg-destructive' : 'bg-warning'
+                  )}
+                  style={{ left: `${percentOf(alert.time)}%` }}
+                />
+              ))}
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground mt-2">
+            <span>{formatTime(startTime)}</span>
+            <span className="font-medium text-foreground">{formatTime(currentTime, { seconds: true })}</span>
+            <span>{formatTime(endTime)}</span>
+          </div>
+        </div>
+      </div>
+
+      {alertMarkers.some((alert) => alert.time != null) && (
+        <div className="flex flex-wrap gap-2">
+          {alertMarkers
+            .filter((alert) => alert.time != null)
+            .map((alert) => (
+              <button
+                key={alert.id}
+                type="button"
+                onClick={() => {
+                  setIsPlaying(false);
+                  setCurrentTime(alert.time);
+                }}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors',
+                  alert.hasFired
+                    ? 'bg-destructive/10 border-destructive/30 text-destructive'
+                    : 'bg-muted border-border text-muted-foreground'
+                )}
+              >
+                {alert.type} • {formatTime(alert.time)}
+              </button>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import L from 'leaflet';
+
+// Point these at a local tile server in development, e.g. VITE_MAP_TILE_URL=http://localhost:8081/{z}/{x}/{y}.png
+export const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const TILE_ATTRIBUTION =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+export const TILE_MAX_ZOOM = Number(import.meta.env.VITE_MAP_TILE_MAX_ZOOM) || 19;
+
+export const DEFAULT_CENTER: [number, number] = [37.7749, -122.4194];
+export const DEFAULT_ZOOM = 13;
+export const DETAIL_ZOOM = 16;
+
+// Leaflet writes path colours into SVG attributes, where CSS variables don't resolve
+export const PRIMARY_COLOR = 'hsl(158 64% 40%)';
+export const MUTED_COLOR = 'hsl(215 16% 47%)';
+export const WARNING_COLOR = 'hsl(38 92% 50%)';
+
+// Icons are plain HTML so no marker images have to be bundled
+export const pinIcon = L.divIcon({
+  className: '',
+  html:
+    '<svg viewBox="0 0 24 24" width="36" height="36" fill="hsl(var(--primary))" stroke="white" stroke-width="1.5">' +
+    '<path d="M12 22s8-7.16 8-13a8 8 0 1 0-16 0c0 5.84 8 13 8 13z"/><circle cx="12" cy="9" r="3" fill="white"/></svg>',
+  iconSize: [36, 36],
+  iconAnchor: [18, 34],
+});
+
+export const handleIcon = L.divIcon({
+  className: '',
+  html: '<div class="w-5 h-5 rounded-full bg-white border-4 border-primary shadow"></div>',
+  iconSize: [20, 20],
+  iconAnchor: [10, 10],
+});
+
+export const positionIcon = L.divIcon({
+  className: '',
+  html: '<div class="w-4 h-4 rounded-full bg-primary border-2 border-white shadow-lg"></div>',
+  iconSize: [16, 16],
+  iconAnchor: [8, 8],
+});
+
+export const offRoutePositionIcon = L.divIcon({
+  className: '',
+  html: '<div class="w-4 h-4 rounded-full bg-warning border-2 border-white shadow-lg animate-pulse"></div>',
+  iconSize: [16, 16],
+  iconAnchor: [8, 8],
+});
+
+export const startIcon = L.divIcon({
+  className: '',
+  html: '<div class="w-3.5 h-3.5 rounded-full bg-white border-[3px] border-secondary shadow"></div>',
+  iconSize: [14, 14],
+  iconAnchor: [7, 7],
+});
+
+// Alerts are drawn in warning colours until they have fired in a replay
+export const alertIcon = (active: boolean) =>
+  L.divIcon({
+    className: '',
+    html:
+      `<div class="w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold shadow border-2 border-white ${
+        active ? 'bg-destructive text-white' : 'bg-warning/60 text-white'
+      }">!</div>`,
+    iconSize: [24, 24],
+    iconAnchor: [12, 12],
+  });
+
+// Numbered marker for a stop on the way to the destination
+export const stopIcon = (number: number, reached: boolean) =>
+  L.divIcon({
+    className: '',
+    html:
+      `<div class="w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold shadow border-2 border-white ${
+        reached ? 'bg-safe text-white' : 'bg-secondary text-white'
+      }">${number}</div>`,
+    iconSize: [24, 24],
+    iconAnchor: [12, 12],
+  });
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { FormTextInput } from '@/components/shared/FormTextInput';
+import { PrimaryButton } from '@/components/shared/PrimaryButton';
+import { PinDialog } from '@/components/shared/PinDialog';
+import { checkPin, clearSafetyPins, hasDuressPin, hasSafetyPin, PIN_PATTERN, setSafetyPins } from '@/services/safetyPin';
+import { z } from 'zod';
+
+const pinSchema = z
+  .object({
+    safetyPin: z.string().regex(PIN_PATTERN, 'PIN must be 4 to 8 digits'),
+    confirmPin: z.string(),
+    duressPin: z.union([z.literal(''), z.string().regex(PIN_PATTERN, 'PIN must be 4 to 8 digits')]),
+  })
+  .refine((data) => data.safetyPin === data.confirmPin, {
+    message: 'PINs do not match',
+    path: ['confirmPin'],
+  })
+  .refine((data) => !data.duressPin || data.duressPin !== data.safetyPin, {
+    message: 'Duress PIN must differ from your safety PIN',
+    path: ['duressPin'],
+  });
+
+const emptyForm = { safetyPin: '', confirmPin: '', duressPin: '' };
+
+export function SafetyPinSettings() {
+  const [isPinSet, setIsPinSet] = useState(hasSafetyPin);
+  const [isDuressSet, setIsDuressSet] = useState(hasDuressPin);
+  const [isEditing, setIsEditing] = useState(false);
+  const [verifyAction, setVerifyAction] = useState<'change' | 'remove' | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData((prev) => ({ ...prev, [field]: e.target.value.replace(/\D/g, '') }));
+  };
+
+  const closeForm = () => {
+    setIsEditing(false);
+    setFormData(emptyForm);
+    setFieldErrors({});
+  };
+
+  const handleSave = async () => {
+    setFieldErrors({});
+
+    const result = pinSchema.safeParse(formData);
+    if (!result.success) {
+      const errors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          errors[err.path[0] as string] = err.message;
+        }
+      });
+      setFieldErrors(errors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setSafetyPins(formData.safetyPin, formData.duressPin || undefined);
+      setIsPinSet(true);
+      setIsDuressSet(!!formData.duressPin);
+      closeForm();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Changing or removing an existing PIN requires the current safety PIN
+  const handleVerify = async (pin: string) => {
+    if ((await checkPin(pin)) !== 'safety') return 'Incorrect PIN';
+
+    if (verifyAction === 'remove') {
+      clearSafetyPins();
+      setIsPinSet(false);
+      setIsDuressSet(false);
+    } else {
+      setIsEditing(true);
+    }
+    setVerifyAction(null);
+    return null;
+  };
+
+  return (
+    <div className="safe-card">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 rounded-xl bg-accent flex items-center justify-center">
+          <KeyRound className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Safety PIN</h3>
+          <p className="text-sm text-muted-foreground">
+            {isPinSet
+              ? `Required to end a trip${isDuressSet ? ' • duress PIN set' : ''}`
+              : 'Not set — anyone with your phone can end a trip'}
+          </p>
+        </div>
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-4">
+          <FormTextInput
+            label="New Safety PIN"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={8}
+            value={formData.safetyPin}
+            onChange={handleChange('safetyPin')}
+            error={fieldErrors.safetyPin}
+          />
+          <FormTextInput
+            label="Confirm Safety PIN"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={8}
+            value={formData.confirmPin}
+            onChange={handleChange('confirmPin')}
+            error={fieldErrors.confirmPin}
+          />
+          <FormTextInput
+            label="Duress PIN (Optional)"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={8}
+            value={formData.duressPin}
+            onChange={handleChange('duressPin')}
+            helpText="Shows the trip as ended, but keeps sharing your location and silently sends an SOS"
+            error={fieldErrors.duressPin}
+          />
+          <div className="flex gap-3">
+            <PrimaryButton variant="outline" className="flex-1" onClick={closeForm}>
+              Cancel
+            </PrimaryButton>
+            <PrimaryButton className="flex-1" onClick={handleSave} isLoading={isSaving}>
+              Save PIN
+            </PrimaryButton>
+          </div>
+        </div>
+      ) : isPinSet ? (
+        <div className="flex gap-3">
+          <PrimaryButton variant="outline" className="flex-1" onClick={() => setVerifyAction('change')}>
+            Change PIN
+          </PrimaryButton>
+          <PrimaryButton variant="ghost" className="flex-1" onClick={() => setVerifyAction('remove')}>
+            Remove PIN
+          </PrimaryButton>
+        </div>
+      ) : (
+        <PrimaryButton variant="outline" fullWidth onClick={() => setIsEditing(true)}>
+          Set Safety PIN
+        </PrimaryButton>
+      )}
+
+      <PinDialog
+        open={verifyAction !== null}
+        onOpenChange={(open) => !open && setVerifyAction(null)}
+        title={verifyAction === 'remove' ? 'Remove Safety PIN' : 'Change Safety PIN'}
+        description="Enter your current safety PIN to continue."
+        confirmText="Continue"
+        onSubmit={handleVerify}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { FormTextInput } from './FormTextInput';
+import { PrimaryButton } from './PrimaryButton';
+
+interface PinDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  confirmText?: string;
+  /** Resolves with an error message to show, or null when the PIN was accepted */
+  onSubmit: (pin: string) => Promise<string | null>;
+}
+
+export function PinDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmText = 'Confirm',
+  onSubmit,
+}: PinDialogProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setPin('');
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin) return;
+
+    setIsSubmitting(true);
+    try {
+      const message = await onSubmit(pin);
+      setError(message);
+      if (message) setPin('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="rounded-2xl max-w-sm mx-4">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-xl">{title}</AlertDialogTitle>
+            <AlertDialogDescription className="text-muted-foreground">{description}</AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <FormTextInput
+            label="Safety PIN"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            autoFocus
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            maxLength={8}
+            error={error ?? undefined}
+          />
+
+          <AlertDialogFooter className="flex-col gap-2 sm:flex-row">
+            <AlertDialogCancel type="button" className="rounded-xl h-12" disabled={isSubmitting}>
+              Cancel
+            </AlertDialogCancel>
+            <PrimaryButton type="submit" className="h-12" disabled={!pin} isLoading={isSubmitting}>
+              {confirmText}
+            </PrimaryButton>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { Siren } from 'lucide-react';
+import { SosCountdownOverlay, SosPhase } from './SosCountdownOverlay';
+import { getSosSettings, sendSos } from '@/services/sos';
+import { ApiError } from '@/models/types';
+import { cn } from '@/lib/utils';
+
+interface SosButtonProps {
+  /** Active trip to attach the alert to; looked up on demand when omitted */
+  tripId?: string | null;
+  variant?: 'floating' | 'inline';
+  className?: string;
+}
+
+// Holding the button this long sends a silent SOS straight away
+const LONG_PRESS_MS = 1500;
+
+function beep() {
+  try {
+    const AudioContextClass =
+      window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    const context = new AudioContextClass();
+    const oscillator = context.createOscillator();
+    oscillator.frequency.value = 880;
+    oscillator.connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + 0.15);
+    oscillator.onended = () => context.close();
+  } catch {
+    // Audio is best effort
+  }
+}
+
+export function SosButton({ tripId, variant = 'floating', className }: SosButtonProps) {
+  const [phase, setPhase] = useState<SosPhase | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const pressTimerRef = useRef<number | null>(null);
+  const longPressedRef = useRef(false);
+
+  const send = async (silent: boolean) => {
+    if (silent) {
+      // No sound, vibration or visible confirmation; failures stay hidden too
+      sendSos({ tripId, silent: true }).catch((err) => console.error('Silent SOS failed:', err));
+      return;
+    }
+
+    setPhase('sending');
+    setError(null);
+    try {
+      await sendSos({ tripId, silent: false });
+      setPhase('sent');
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to send SOS');
+      setPhase('failed');
+    }
+  };
+
+  const handleClick = () => {
+    if (longPressedRef.current) {
+      longPressedRef.current = false;
+      return;
+    }
+
+    const settings = getSosSettings();
+    if (settings.alwaysSilent) {
+      send(true);
+    } else if (settings.countdownSeconds <= 0) {
+      send(false);
+    } else {
+      setSecondsLeft(settings.countdownSeconds);
+      setPhase('countdown');
+    }
+  };
+
+  const handlePressStart = () => {
+    longPressedRef.current = false;
+    pressTimerRef.current = window.setTimeout(() => {
+      longPressedRef.current = true;
+      send(true);
+    }, LONG_PRESS_MS);
+  };
+
+  const handlePressEnd = () => {
+    if (pressTimerRef.current) clearTimeout(pressTimerRef.current);
+    pressTimerRef.current = null;
+  };
+
+  useEffect(() => {
+    if (phase !== 'countdown') return;
+
+    if (secondsLeft <= 0) {
+      send(false);
+      return;
+    }
+
+    beep();
+    navigator.vibrate?.(200);
+    const timeoutId = window.setTimeout(() => setSecondsLeft((prev) => prev - 1), 1000);
+    return () => clearTimeout(timeoutId);
+  }, [phase, secondsLeft]);
+
+  useEffect(() => handlePressEnd, []);
+
+  return (
+    <>
+      <button
+        type="button"
+        aria-label="SOS emergency alert"
+        onClick={handleClick}
+        onPointerDown={handlePressStart}
+        onPointerUp={handlePressEnd}
+        onPointerLeave={handlePressEnd}
+        onContextMenu={(e) => e.preventDefault()}
+        className={cn(
+          'gradient-danger shadow-danger text-destructive-foreground font-bold select-none transition-transform active:scale-95',
+          variant === 'floating'
+            ? 'fixed right-4 bottom-24 z-40 w-14 h-14 rounded-full flex items-center justify-center'
+            : 'h-10 px-4 rounded-xl flex items-center justify-center gap-2',
+          className
+        )}
+      >
+        <Siren className="h-6 w-6" />
+        {variant === 'inline' && <span>SOS</span>}
+      </button>
+
+      {phase && (
+        <SosCountdownOverlay
+          phase={phase}
+          secondsLeft={secondsLeft}
+          error={error}
+          onCancel={() => setPhase(null)}
+          onSendNow={() => send(false)}
+          onRetry={() => send(false)}
+          onClose={() => setPhase(null)}
+        />
+      )}
+    </>
+  );
+}
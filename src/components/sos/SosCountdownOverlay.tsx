@@ -0,0 +1,82 @@
+import { AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { PrimaryButton } from '@/components/shared/PrimaryButton';
+
+export type SosPhase = 'countdown' | 'sending' | 'sent' | 'failed';
+
+interface SosCountdownOverlayProps {
+  phase: SosPhase;
+  secondsLeft: number;
+  error?: string | null;
+  onCancel: () => void;
+  onSendNow: () => void;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+export function SosCountdownOverlay({
+  phase,
+  secondsLeft,
+  error,
+  onCancel,
+  onSendNow,
+  onRetry,
+  onClose,
+}: SosCountdownOverlayProps) {
+  return (
+    <div className="fixed inset-0 z-50 gradient-danger text-destructive-foreground flex flex-col items-center justify-center p-6 text-center safe-area-top safe-area-bottom">
+      {phase === 'countdown' && (
+        <>
+          <p className="text-lg font-semibold uppercase tracking-wide mb-6">Sending SOS in</p>
+          <div className="w-40 h-40 rounded-full border-8 border-white/40 flex items-center justify-center mb-8 animate-pulse">
+            <span className="text-7xl font-bold">{secondsLeft}</span>
+          </div>
+          <p className="text-white/90 mb-10 max-w-xs">
+            Your trusted contacts will receive an emergency alert with your location.
+          </p>
+          <div className="w-full max-w-xs space-y-3">
+            <PrimaryButton fullWidth size="lg" variant="secondary" onClick={onCancel}>
+              Cancel
+            </PrimaryButton>
+            <button onClick={onSendNow} className="w-full py-3 text-sm font-semibold underline">
+              Send now
+            </button>
+          </div>
+        </>
+      )}
+
+      {phase === 'sending' && (
+        <>
+          <Loader2 className="h-16 w-16 animate-spin mb-6" />
+          <p className="text-xl font-bold">Sending SOS...</p>
+        </>
+      )}
+
+      {phase === 'sent' && (
+        <>
+          <CheckCircle className="h-20 w-20 mb-6" />
+          <h2 className="text-2xl font-bold mb-2">SOS Sent</h2>
+          <p className="text-white/90 mb-10 max-w-xs">Your trusted contacts are being notified.</p>
+          <PrimaryButton size="lg" variant="secondary" className="w-full max-w-xs" onClick={onClose}>
+            Close
+          </PrimaryButton>
+        </>
+      )}
+
+      {phase === 'failed' && (
+        <>
+          <AlertTriangle className="h-20 w-20 mb-6" />
+          <h2 className="text-2xl font-bold mb-2">SOS Not Sent</h2>
+          <p className="text-white/90 mb-10 max-w-xs">{error || 'Could not reach SafeWalk.'}</p>
+          <div className="w-full max-w-xs space-y-3">
+            <PrimaryButton fullWidth size="lg" variant="secondary" onClick={onRetry}>
+              Try Again
+            </PrimaryButton>
+            <button onClick={onClose} className="w-full py-3 text-sm font-semibold underline">
+              Close
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
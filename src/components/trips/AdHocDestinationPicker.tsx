@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { FormTextInput } from '@/components/shared/FormTextInput';
+import { AddressSearchInput } from '@/components/locations/AddressSearchInput';
+import { LocationPicker } from '@/components/map/LocationPicker';
+import { useReverseGeocode } from '@/hooks/use-reverse-geocode';
+import { Coordinates, parseCoordinates } from '@/lib/geo';
+import { AdHocDestinationRequest } from '@/models/types';
+import { getGeocoder } from '@/services/geocoding/createGeocoder';
+import { GeocodeResult } from '@/services/geocoding/types';
+
+interface AdHocDestinationPickerProps {
+  value: AdHocDestinationRequest | null;
+  onChange: (destination: AdHocDestinationRequest) => void;
+  onError?: (message: string) => void;
+}
+
+const DEFAULT_RADIUS_METERS = 100;
+
+// "Ferry Building, 1 Ferry Building, San Francisco" -> "Ferry Building"
+const shortName = (label: string) => label.split(',')[0].trim();
+
+/**
+ * Picks a one-off trip destination from an address search (when a geocoder is
+ * configured), a pin on the map or pasted coordinates.
+ */
+export function AdHocDestinationPicker({ value, onChange, onError }: AdHocDestinationPickerProps) {
+  const [search, setSearch] = useState(value?.address ?? '');
+  const [pasted, setPasted] = useState('');
+  const [pasteError, setPasteError] = useState<string | undefined>();
+  const [isNameEdited, setIsNameEdited] = useState(false);
+  const reverseGeocode = useReverseGeocode();
+
+  const radiusMeters = value?.radiusMeters ?? DEFAULT_RADIUS_METERS;
+
+  const update = (changes: Partial<AdHocDestinationRequest>) => {
+    onChange({ name: '', latitude: 0, longitude: 0, radiusMeters, ...value, ...changes });
+  };
+
+  const placePin = async (coordinates: Coordinates) => {
+    update({ ...coordinates, address: undefined, ...(isNameEdited ? {} : { name: 'Dropped pin' }) });
+
+    const place = await reverseGeocode.resolve(coordinates);
+    if (place) {
+      setSearch(place.label);
+      onChange({
+        radiusMeters,
+        ...coordinates,
+        name: isNameEdited && value?.name ? value.name : shortName(place.label),
+        address: place.label,
+      });
+    }
+  };
+
+  const handleSelect = (result: GeocodeResult) => {
+    reverseGeocode.cancel();
+    setSearch(result.label);
+    update({
+      latitude: parseFloat(result.latitude.toFixed(6)),
+      longitude: parseFloat(result.longitude.toFixed(6)),
+      address: result.label,
+      ...(isNameEdited ? {} : { name: shortName(result.label) }),
+    });
+  };
+
+  const handlePaste = (text: string) => {
+    setPasted(text);
+    if (!text.trim()) {
+      setPasteError(undefined);
+      return;
+    }
+
+    const coordinates = parseCoordinates(text);
+    if (!coordinates) {
+      setPasteError('Enter coordinates as "latitude, longitude"');
+      return;
+    }
+    setPasteError(undefined);
+    placePin(coordinates);
+  };
+
+  const pin =
+    value && (value.latitude || value.longitude) ? { latitude: value.latitude, longitude: value.longitude } : null;
+
+  return (
+    <div className="space-y-4">
+      {getGeocoder() && (
+        <AddressSearchInput
+          label="Search"
+          value={search}
+          onChange={setSearch}
+          onSelect={handleSelect}
+          placeholder="Search for an address or place"
+          helpText={reverseGeocode.isResolving ? 'Looking up address...' : undefined}
+        />
+      )}
+
+      <LocationPicker
+        value={pin}
+        radiusMeters={radiusMeters}
+        onChange={placePin}
+        onRadiusChange={(radius) => update({ radiusMeters: radius })}
+        onError={onError}
+      />
+
+      <FormTextInput
+        label="Or Paste Coordinates"
+        value={pasted}
+        onChange={(e) => handlePaste(e.target.value)}
+        placeholder="37.7749, -122.4194"
+        inputMode="decimal"
+        error={pasteError}
+      />
+
+      {pin && (
+        <FormTextInput
+          label="Destination Name"
+          value={value.name}
+          onChange={(e) => {
+            setIsNameEdited(true);
+            update({ name: e.target.value });
+          }}
+          placeholder="e.g., Friend's place"
+        />
+      )}
+    </div>
+  );
+}
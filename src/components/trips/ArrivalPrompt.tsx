@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface ArrivalPromptProps {
+  open: boolean;
+  destinationName: string;
+  /** Seconds to wait for an answer before completing automatically */
+  graceSeconds?: number;
+  onComplete: () => void;
+  /** Called when the grace countdown runs out; defaults to onComplete */
+  onAutoComplete?: () => void;
+  onDismiss: () => void;
+  isLoading?: boolean;
+  /** Extra options shown above the buttons */
+  children?: React.ReactNode;
+}
+
+export function ArrivalPrompt({
+  open,
+  destinationName,
+  graceSeconds = 60,
+  onComplete,
+  onAutoComplete = onComplete,
+  onDismiss,
+  isLoading,
+  children,
+}: ArrivalPromptProps) {
+  const [secondsLeft, setSecondsLeft] = useState(graceSeconds);
+  const [autoCompleteTried, setAutoCompleteTried] = useState(false);
+
+  useEffect(() => {
+    // Reset on close too, so a later arrival always gets the full grace period
+    setSecondsLeft(graceSeconds);
+    setAutoCompleteTried(false);
+    if (!open) return;
+
+    const intervalId = window.setInterval(() => {
+      setSecondsLeft((prev) => Math.max(0, prev - 1));
+    }, 1000);
+    return () => clearInterval(intervalId);
+  }, [open, graceSeconds]);
+
+  // Tried once; if that fails (e.g. offline) the Complete button is the retry
+  useEffect(() => {
+    if (!open || secondsLeft > 0 || isLoading || autoCompleteTried) return;
+    setAutoCompleteTried(true);
+    onAutoComplete();
+  }, [open, secondsLeft, isLoading, autoCompleteTried]);
+
+  const autoCompleteFailed = autoCompleteTried && !isLoading;
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent className="rounded-2xl max-w-sm mx-4">
+        <AlertDialogHeader>
+          <div className="w-14 h-14 rounded-2xl gradient-safe flex items-center justify-center mx-auto mb-2">
+            <MapPin className="h-7 w-7 text-primary-foreground" />
+          </div>
+          <AlertDialogTitle className="text-xl text-center">You've arrived — complete trip?</AlertDialogTitle>
+          <AlertDialogDescription className="text-muted-foreground text-center">
+            {autoCompleteFailed ? (
+              <>You're at {destinationName}, but the trip couldn't be completed automatically. Try again below.</>
+            ) : (
+              <>
+                You're at {destinationName}. The trip will be completed automatically in{' '}
+                <span className="font-semibold text-foreground">{secondsLeft}s</span>.
+              </>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {children}
+        <AlertDialogFooter className="flex-col gap-2 sm:flex-row">
+          <AlertDialogCancel onClick={onDismiss} className="rounded-xl h-12" disabled={isLoading}>
+            Not Yet
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onComplete}
+            disabled={isLoading}
+            className="rounded-xl h-12 font-semibold gradient-safe shadow-primary"
+          >
+            {isLoading ? 'Please wait...' : autoCompleteFailed ? 'Try Again' : 'Complete Trip'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
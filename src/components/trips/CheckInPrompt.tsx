@@ -0,0 +1,66 @@
+import { BellRing, CheckCircle, RefreshCw } from 'lucide-react';
+import { PrimaryButton } from '@/components/shared/PrimaryButton';
+import { MissedAlertStatus } from '@/hooks/use-check-in-timer';
+import { cn } from '@/lib/utils';
+
+interface CheckInPromptProps {
+  missed: boolean;
+  alertStatus: MissedAlertStatus;
+  msUntilMissed: number;
+  onCheckIn: () => void;
+  onRetryAlert: () => void;
+}
+
+const MISSED_MESSAGES: Record<MissedAlertStatus, string> = {
+  idle: 'You missed your check-in. Alerting your trusted contacts...',
+  sending: 'You missed your check-in. Alerting your trusted contacts...',
+  sent: 'You missed your check-in. Your trusted contacts have been alerted.',
+  failed: "You missed your check-in, but your trusted contacts couldn't be alerted. Retrying shortly.",
+};
+
+function formatCountdown(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function CheckInPrompt({ missed, alertStatus, msUntilMissed, onCheckIn, onRetryAlert }: CheckInPromptProps) {
+  return (
+    <div
+      className={cn(
+        'fixed inset-0 z-50 text-primary-foreground flex flex-col items-center justify-center p-6 text-center safe-area-top safe-area-bottom',
+        missed ? 'gradient-danger' : 'gradient-warning'
+      )}
+    >
+      <BellRing className="h-20 w-20 mb-6 animate-pulse" />
+      <h2 className="text-3xl font-bold mb-3">Are you OK?</h2>
+
+      {missed ? (
+        <p className="text-white/90 mb-10 max-w-xs">{MISSED_MESSAGES[alertStatus]}</p>
+      ) : (
+        <p className="text-white/90 mb-10 max-w-xs">
+          Time to check in. Your trusted contacts will be alerted in{' '}
+          <span className="font-bold">{formatCountdown(msUntilMissed)}</span>.
+        </p>
+      )}
+
+      <PrimaryButton size="lg" variant="secondary" className="w-full max-w-xs" onClick={onCheckIn}>
+        <CheckCircle className="h-5 w-5 mr-2" />
+        I'm OK
+      </PrimaryButton>
+
+      {missed && alertStatus === 'failed' && (
+        <PrimaryButton
+          size="lg"
+          variant="ghost"
+          className="w-full max-w-xs mt-3 border-2 border-white/70 text-white hover:bg-white/10 hover:text-white"
+          onClick={onRetryAlert}
+        >
+          <RefreshCw className="h-5 w-5 mr-2" />
+          Alert Contacts Again
+        </PrimaryButton>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { addMinutes } from 'date-fns';
+import { PrimaryButton } from '@/components/shared/PrimaryButton';
+import { FormTextInput } from '@/components/shared/FormTextInput';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { formatTime } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+
+interface ExtendEtaSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  expectedArrival: Date | null;
+  onExtend: (minutes: number, reason?: string) => void;
+  isLoading?: boolean;
+}
+
+const PRESET_MINUTES = [5, 10, 30];
+const MAX_EXTENSION_MINUTES = 180;
+
+export function ExtendEtaSheet({ open, onOpenChange, expectedArrival, onExtend, isLoading }: ExtendEtaSheetProps) {
+  const [minutes, setMinutes] = useState<number | null>(10);
+  const [isCustom, setIsCustom] = useState(false);
+  const [customMinutes, setCustomMinutes] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setMinutes(10);
+    setIsCustom(false);
+    setCustomMinutes('');
+    setReason('');
+  }, [open]);
+
+  const selected = isCustom ? parseInt(customMinutes, 10) || null : minutes;
+  const isValid = selected != null && selected > 0 && selected <= MAX_EXTENSION_MINUTES;
+  // Measured from now if the trip is already overdue
+  const newArrival =
+    isValid && expectedArrival ? addMinutes(new Date(Math.max(expectedArrival.getTime(), Date.now())), selected) : null;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl">
+        <SheetHeader>
+          <SheetTitle>Need More Time?</SheetTitle>
+          <SheetDescription>
+            {expectedArrival
+              ? `You're expected by ${formatTime(expectedArrival)}. Delay alerts wait for the new time.`
+              : 'Delay alerts wait for the new time.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="flex gap-2">
+            {PRESET_MINUTES.map((preset) => (
+              <button
+                key={preset}
+                onClick={() => {
+                  setMinutes(preset);
+                  setIsCustom(false);
+                }}
+                className={cn(
+                  'flex-1 py-3 rounded-xl border-2 text-sm font-medium transition-all',
+                  !isCustom && minutes === preset
+                    ? 'border-primary bg-accent text-primary'
+                    : 'border-border bg-card text-foreground hover:border-primary/50'
+                )}
+              >
+                +{preset} min
+              </button>
+            ))}
+            <button
+              onClick={() => setIsCustom(true)}
+              className={cn(
+                'flex-1 py-3 rounded-xl border-2 text-sm font-medium transition-all',
+                isCustom
+                  ? 'border-primary bg-accent text-primary'
+                  : 'border-border bg-card text-foreground hover:border-primary/50'
+              )}
+            >
+              Custom
+            </button>
+          </div>
+
+          {isCustom && (
+            <FormTextInput
+              label="Minutes"
+              type="number"
+              min="1"
+              max={MAX_EXTENSION_MINUTES}
+              inputMode="numeric"
+              value={customMinutes}
+              onChange={(e) => setCustomMinutes(e.target.value)}
+              placeholder="e.g., 20"
+              error={customMinutes && !isValid ? `Between 1 and ${MAX_EXTENSION_MINUTES} minutes` : undefined}
+            />
+          )}
+
+          <FormTextInput
+            label="Reason (Optional)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g., Bus is late"
+            maxLength={200}
+            helpText="Shown to your contacts and in the trip history."
+          />
+
+          <PrimaryButton
+            fullWidth
+            size="lg"
+            disabled={!isValid}
+            isLoading={isLoading}
+            onClick={() => onExtend(selected, reason.trim() || undefined)}
+          >
+            {newArrival ? `Extend to ${formatTime(newArrival)}` : 'Extend'}
+          </PrimaryButton>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
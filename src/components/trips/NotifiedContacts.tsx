@@ -0,0 +1,35 @@
+import { Users } from 'lucide-react';
+import { TrustedContactResponse } from '@/models/types';
+
+interface NotifiedContactsProps {
+  /** Ids chosen for the trip; when missing, the backend picks from all contacts */
+  contactIds?: string[];
+  contacts: TrustedContactResponse[];
+}
+
+export function NotifiedContacts({ contactIds, contacts }: NotifiedContactsProps) {
+  const selected = contactIds ? contacts.filter((contact) => contactIds.includes(contact.id)) : [];
+
+  let label: string;
+  if (!contactIds) {
+    label = 'All trusted contacts';
+  } else if (contactIds.length === 0) {
+    label = 'No one';
+  } else if (selected.length > 0) {
+    label = selected.map((contact) => contact.name).join(', ');
+  } else {
+    label = `${contactIds.length} contact${contactIds.length !== 1 ? 's' : ''}`;
+  }
+
+  return (
+    <div className="flex items-start gap-3">
+      <div className="w-10 h-10 rounded-xl bg-accent flex items-center justify-center flex-shrink-0">
+        <Users className="h-5 w-5 text-primary" />
+      </div>
+      <div className="min-w-0">
+        <p className="text-sm text-muted-foreground">Notified Contacts</p>
+        <p className="font-medium text-foreground">{label}</p>
+      </div>
+    </div>
+  );
+}
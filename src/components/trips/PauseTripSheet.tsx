@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { PrimaryButton } from '@/components/shared/PrimaryButton';
+import { FormTextInput } from '@/components/shared/FormTextInput';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { cn } from '@/lib/utils';
+
+/** Longest pause allowed; monitoring resumes on its own after this */
+export const MAX_PAUSE_MINUTES = 60;
+
+const PAUSE_OPTIONS = [10, 20, 30, MAX_PAUSE_MINUTES];
+const DEFAULT_PAUSE_MINUTES = 20;
+
+const formatMinutes = (minutes: number) => (minutes % 60 === 0 ? `${minutes / 60} hr` : `${minutes} min`);
+
+interface PauseTripSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPause: (minutes: number, reason?: string) => void;
+  isLoading?: boolean;
+}
+
+export function PauseTripSheet({ open, onOpenChange, onPause, isLoading }: PauseTripSheetProps) {
+  const [minutes, setMinutes] = useState(DEFAULT_PAUSE_MINUTES);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setMinutes(DEFAULT_PAUSE_MINUTES);
+    setReason('');
+  }, [open]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl">
+        <SheetHeader>
+          <SheetTitle>Pause Trip</SheetTitle>
+          <SheetDescription>
+            No stop or delay alerts while paused. Monitoring resumes when the time is up and your contacts are told.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="flex gap-2">
+            {PAUSE_OPTIONS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setMinutes(option)}
+                className={cn(
+                  'flex-1 py-3 rounded-xl border-2 text-sm font-medium transition-all',
+                  minutes === option
+                    ? 'border-primary bg-accent text-primary'
+                    : 'border-border bg-card text-foreground hover:border-primary/50'
+                )}
+              >
+                {formatMinutes(option)}
+              </button>
+            ))}
+          </div>
+
+          <FormTextInput
+            label="Reason (Optional)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g., Coffee stop"
+            maxLength={200}
+          />
+
+          <PrimaryButton fullWidth size="lg" isLoading={isLoading} onClick={() => onPause(minutes, reason.trim() || undefined)}>
+            Pause for {formatMinutes(minutes)}
+          </PrimaryButton>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import { Coffee, Play } from 'lucide-react';
+import { PrimaryButton } from '@/components/shared/PrimaryButton';
+import { Progress } from '@/components/ui/progress';
+import { parseApiDate } from '@/lib/dates';
+
+interface PausedTripCardProps {
+  pausedAt: string;
+  pauseEndsAt: string;
+  onResume: () => void;
+  /** Called when the pause runs out, and again until it resolves with true */
+  onExpire: () => Promise<boolean>;
+  isResuming?: boolean;
+}
+
+function formatCountdown(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+const EXPIRE_RETRY_MS = 10000;
+
+export function PausedTripCard({ pausedAt, pauseEndsAt, onResume, onExpire, isResuming }: PausedTripCardProps) {
+  const [now, setNow] = useState(Date.now());
+  const expiredRef = useRef(false);
+
+  const startsAt = parseApiDate(pausedAt)?.getTime() ?? NaN;
+  const endsAt = parseApiDate(pauseEndsAt)?.getTime() ?? NaN;
+  const msLeft = Math.max(0, endsAt - now);
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  useEffect(() => {
+    expiredRef.current = false;
+  }, [pauseEndsAt]);
+
+  useEffect(() => {
+    if (msLeft > 0 || expiredRef.current) return;
+    expiredRef.current = true;
+
+    // The trip stays paused, and unmonitored, until a resume gets through
+    onExpire().then((resumed) => {
+      if (!resumed) window.setTimeout(() => (expiredRef.current = false), EXPIRE_RETRY_MS);
+    });
+  }, [msLeft, onExpire]);
+
+  const total = endsAt - startsAt;
+  const progress = total > 0 ? Math.min(100, ((now - startsAt) / total) * 100) : 100;
+
+  return (
+    <div className="safe-card border-2 border-primary/30 bg-accent/50">
+      <div className="flex items-center gap-3 mb-3">
+        <div className="w-12 h-12 rounded-xl bg-muted flex items-center justify-center flex-shrink-0">
+          <Coffee className="h-6 w-6 text-muted-foreground" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold text-foreground">Trip Paused</h3>
+          <p className="text-sm text-muted-foreground">Monitoring resumes on its own when the timer ends.</p>
+        </div>
+        <span className="text-2xl font-bold text-foreground tabular-nums">{formatCountdown(msLeft)}</span>
+      </div>
+      <Progress value={progress} className="h-2 mb-4" />
+      <PrimaryButton variant="safe" fullWidth onClick={onResume} isLoading={isResuming}>
+        <Play className="h-4 w-4 mr-2" />
+        Resume Now
+      </PrimaryButton>
+    </div>
+  );
+}
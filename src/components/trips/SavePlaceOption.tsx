@@ -0,0 +1,19 @@
+import { Checkbox } from '@/components/ui/checkbox';
+
+interface SavePlaceOptionProps {
+  placeName: string;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}
+
+/** Offered when ending a trip to an ad-hoc destination. */
+export function SavePlaceOption({ placeName, checked, onCheckedChange }: SavePlaceOptionProps) {
+  return (
+    <label className="flex items-center gap-3 p-3 rounded-xl bg-accent cursor-pointer">
+      <Checkbox checked={checked} onCheckedChange={(value) => onCheckedChange(value === true)} />
+      <span className="text-sm text-foreground">
+        Save <span className="font-medium">{placeName}</span> to my locations
+      </span>
+    </label>
+  );
+}
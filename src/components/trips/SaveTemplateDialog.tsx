@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { ConfirmDialog } from '@/components/shared/ConfirmDialog';
+import { FormTextInput } from '@/components/shared/FormTextInput';
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName: string;
+  onSave: (name: string) => void;
+  isSaving?: boolean;
+}
+
+/** Names a trip template before it is saved. */
+export function SaveTemplateDialog({ open, onOpenChange, defaultName, onSave, isSaving }: SaveTemplateDialogProps) {
+  const [name, setName] = useState(defaultName);
+
+  useEffect(() => {
+    if (open) setName(defaultName);
+  }, [open, defaultName]);
+
+  return (
+    <ConfirmDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Save as Template"
+      description="Templates show up on your Trips page so you can start this trip again in one tap."
+      confirmText="Save Template"
+      onConfirm={() => onSave(name.trim() || defaultName)}
+      isLoading={isSaving}
+    >
+      <FormTextInput
+        label="Template Name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder={defaultName}
+        maxLength={100}
+      />
+    </ConfirmDialog>
+  );
+}
@@ -0,0 +1,27 @@
+import { CheckCircle, XCircle } from 'lucide-react';
+
+interface TripEndedScreenProps {
+  action: 'complete' | 'cancel';
+  destinationName: string;
+}
+
+/** Full-screen confirmation that a trip is over. */
+export function TripEndedScreen({ action, destinationName }: TripEndedScreenProps) {
+  const Icon = action === 'complete' ? CheckCircle : XCircle;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 text-center bg-background safe-area-top safe-area-bottom">
+      <div className="w-20 h-20 rounded-full bg-accent flex items-center justify-center mb-6">
+        <Icon className="h-10 w-10 text-primary" />
+      </div>
+      <h2 className="text-2xl font-bold text-foreground mb-2">
+        {action === 'complete' ? 'Trip Completed' : 'Trip Cancelled'}
+      </h2>
+      <p className="text-muted-foreground max-w-xs">
+        {action === 'complete'
+          ? `You've arrived at ${destinationName}. Your trusted contacts won't be alerted.`
+          : "Monitoring has stopped. Your trusted contacts won't be alerted."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { Check, Flag } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { TripLeg, getLegProgress } from '@/services/tripLegs';
+import { formatTime } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+
+interface TripLegsProgressProps {
+  legs: TripLeg[];
+  currentIndex: number;
+  /** Straight-line distance to the end of the current leg */
+  distanceRemainingMeters: number | null;
+  etaMinutes: number | null;
+}
+
+const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+export function TripLegsProgress({ legs, currentIndex, distanceRemainingMeters, etaMinutes }: TripLegsProgressProps) {
+  return (
+    <div className="safe-card">
+      <h3 className="font-semibold text-foreground mb-3">
+        Stops ({Math.min(currentIndex + 1, legs.length)} of {legs.length})
+      </h3>
+      <ol className="space-y-3">
+        {legs.map((leg) => {
+          const isDone = !!leg.arrivedAt;
+          const isCurrent = leg.index === currentIndex && !isDone;
+          const isLast = leg.index === legs.length - 1;
+
+          return (
+            <li key={leg.waypointId ?? 'destination'} className="flex items-start gap-3">
+              <div
+                className={cn(
+                  'w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0',
+                  isDone
+                    ? 'bg-safe text-safe-foreground'
+                    : isCurrent
+                    ? 'gradient-primary text-primary-foreground'
+                    : 'bg-muted text-muted-foreground'
+                )}
+              >
+                {isDone ? <Check className="h-4 w-4" /> : isLast ? <Flag className="h-4 w-4" /> : leg.index + 1}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className={cn('font-medium truncate', isDone ? 'text-muted-foreground' : 'text-foreground')}>
+                  {leg.name}
+                </p>
+                {isDone && (
+                  <p className="text-sm text-muted-foreground">Arrived at {formatTime(leg.arrivedAt)}</p>
+                )}
+                {isCurrent && (
+                  <div className="mt-1.5 space-y-1.5">
+                    <Progress value={getLegProgress(leg, distanceRemainingMeters) * 100} className="h-2" />
+                    {distanceRemainingMeters != null && (
+                      <p className="text-sm text-muted-foreground">
+                        {formatDistance(distanceRemainingMeters)} left
+                        {etaMinutes != null && ` • ~${etaMinutes} min`}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, MapPin, Plus, X } from 'lucide-react';
+import { PrimaryButton } from '@/components/shared/PrimaryButton';
+import { AdHocDestinationPicker } from '@/components/trips/AdHocDestinationPicker';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Coordinates } from '@/lib/geo';
+import { AdHocDestinationRequest, SavedLocationResponse, TripWaypointRequest } from '@/models/types';
+
+/** A stop chosen on the start page, with what's needed to show and send it */
+export interface WaypointDraft extends Coordinates {
+  key: string;
+  name: string;
+  request: TripWaypointRequest;
+}
+
+interface WaypointsEditorProps {
+  locations: SavedLocationResponse[];
+  waypoints: WaypointDraft[];
+  onChange: (waypoints: WaypointDraft[]) => void;
+  onError?: (message: string) => void;
+}
+
+let nextKey = 0;
+const newKey = () => `stop-${++nextKey}`;
+
+export function WaypointsEditor({ locations, waypoints, onChange, onError }: WaypointsEditorProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [adHoc, setAdHoc] = useState<AdHocDestinationRequest | null>(null);
+
+  const closeSheet = () => {
+    setIsAdding(false);
+    setAdHoc(null);
+  };
+
+  const addStop = (stop: WaypointDraft) => {
+    onChange([...waypoints, stop]);
+    closeSheet();
+  };
+
+  const addSavedLocation = (location: SavedLocationResponse) =>
+    addStop({
+      key: newKey(),
+      name: location.name,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      request: { destinationId: location.id },
+    });
+
+  const addAdHoc = () => {
+    const destination = { ...adHoc, name: adHoc.name.trim() || 'Dropped pin' };
+    addStop({
+      key: newKey(),
+      name: destination.name,
+      latitude: destination.latitude,
+      longitude: destination.longitude,
+      request: { destination },
+    });
+  };
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...waypoints];
+    const [stop] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, stop);
+    onChange(reordered);
+  };
+
+  const hasAdHocPin = !!adHoc && !!(adHoc.latitude || adHoc.longitude);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Stops on the Way</h2>
+        <button onClick={() => setIsAdding(true)} className="text-sm font-medium text-primary hover:underline">
+          + Add Stop
+        </button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-3">
+        {waypoints.length === 0
+          ? 'Optional. Each stop gets its own arrival check before you head on.'
+          : 'Visited in this order before your destination.'}
+      </p>
+
+      {waypoints.length > 0 && (
+        <ol className="space-y-2">
+          {waypoints.map((stop, index) => (
+            <li key={stop.key} className="flex items-center gap-3 p-3 rounded-xl border-2 border-border bg-card">
+              <span className="w-8 h-8 rounded-full bg-secondary text-secondary-foreground flex items-center justify-center text-sm font-bold flex-shrink-0">
+                {index + 1}
+              </span>
+              <span className="flex-1 min-w-0 font-medium text-foreground truncate">{stop.name}</span>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                aria-label="Move stop up"
+                className="p-1.5 rounded-lg text-muted-foreground hover:bg-accent disabled:opacity-30"
+              >
+                <ChevronUp className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === waypoints.length - 1}
+                aria-label="Move stop down"
+                className="p-1.5 rounded-lg text-muted-foreground hover:bg-accent disabled:opacity-30"
+              >
+                <ChevronDown className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => onChange(waypoints.filter((other) => other.key !== stop.key))}
+                aria-label="Remove stop"
+                className="p-1.5 rounded-lg text-muted-foreground hover:bg-destructive/10 hover:text-destructive"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Sheet open={isAdding} onOpenChange={(open) => !open && closeSheet()}>
+        <SheetContent side="bottom" className="rounded-t-3xl max-h-[90vh] overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Add a Stop</SheetTitle>
+          </SheetHeader>
+
+          <div className="space-y-6 py-4">
+            {locations.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Saved Places</h3>
+                {locations.map((location) => (
+                  <button
+                    key={location.id}
+                    onClick={() => addSavedLocation(location)}
+                    className="w-full p-3 rounded-xl border-2 border-border bg-card hover:border-primary/50 transition-all flex items-center gap-3 text-left"
+                  >
+                    <MapPin className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                    <span className="flex-1 min-w-0 font-medium text-foreground truncate">{location.name}</span>
+                    <Plus className="h-4 w-4 text-primary" />
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Somewhere Else</h3>
+              <AdHocDestinationPicker value={adHoc} onChange={setAdHoc} onError={onError} />
+              <PrimaryButton fullWidth onClick={addAdHoc} disabled={!hasAdHocPin}>
+                Add Stop
+              </PrimaryButton>
+            </div>
+          </div>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Bike, Car, Footprints } from 'lucide-react';
+import { TransportMode } from '@/models/types';
+
+// Contacts preselected for a new trip, by priority
+export const DEFAULT_CONTACT_COUNT = 3;
+
+export const checkInOptions: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: 'Off' },
+  { minutes: 10, label: '10 min' },
+  { minutes: 15, label: '15 min' },
+  { minutes: 30, label: '30 min' },
+  { minutes: 60, label: '1 hr' },
+];
+
+export const transportModes: { mode: TransportMode; icon: typeof Car; label: string }[] = [
+  { mode: 'WALKING', icon: Footprints, label: 'Walking' },
+  { mode: 'BICYCLING', icon: Bike, label: 'Bicycling' },
+  { mode: 'DRIVING', icon: Car, label: 'Driving' },
+];
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import apiClient from '@/api/client';
 import { usersApi } from '@/api/users';
 import { UserResponse, ApiError } from '@/models/types';
@@ -9,7 +9,7 @@ interface AuthContextType {
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (name: string, email: string, phoneNumber: string, password: string) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
 }
 
@@ -18,8 +18,11 @@ const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<UserResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const userRef = useRef(user);
+  userRef.current = user;
 
   const refreshUser = useCallback(async () => {
+    await apiClient.restored;
     if (!apiClient.isAuthenticated()) {
       setUser(null);
       setIsLoading(false);
@@ -44,6 +47,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     refreshUser();
   }, [refreshUser]);
 
+  // Logging in or out in another tab, or a rejected token refresh, applies here too
+  useEffect(
+    () =>
+      apiClient.onSessionChange((authenticated) => {
+        if (!authenticated) {
+          setUser(null);
+        } else if (!userRef.current) {
+          refreshUser();
+        }
+      }),
+    [refreshUser]
+  );
+
   const login = async (email: string, password: string) => {
     await apiClient.login(email, password);
     await refreshUser();
@@ -54,9 +70,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await refreshUser();
   };
 
-  const logout = () => {
-    apiClient.logout();
-    setUser(null);
+  // Waits for the session to be gone everywhere, so a quick re-login can't be wiped by it
+  const logout = async () => {
+    try {
+      await apiClient.logout();
+    } finally {
+      setUser(null);
+    }
   };
 
   return (
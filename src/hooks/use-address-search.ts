@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { ApiError } from '@/models/types';
+import { getGeocoder } from '@/services/geocoding/createGeocoder';
+import { GeocodeResult } from '@/services/geocoding/types';
+
+const DEBOUNCE_MS = 350;
+const MIN_QUERY_LENGTH = 3;
+
+/**
+ * Searches for addresses matching the query; stale requests are aborted as it
+ * changes. Only type-ahead geocoders are debounced, since the rest are given
+ * submitted queries rather than every keystroke; bumping `attempt` searches the
+ * same query again.
+ */
+export function useAddressSearch(query: string, attempt = 0) {
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const geocoder = getGeocoder();
+    const trimmed = query.trim();
+    if (!geocoder || trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    const timeout = setTimeout(
+      async () => {
+        try {
+          const found = await geocoder.search(trimmed, { signal: controller.signal });
+          setResults(found);
+          setError(found.length === 0 && !geocoder.typeAhead ? 'No matching addresses' : null);
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          setResults([]);
+          setError((err as ApiError).message || 'Address search failed');
+        }
+        setIsSearching(false);
+      },
+      geocoder.typeAhead ? DEBOUNCE_MS : 0
+    );
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, attempt]);
+
+  return { results, isSearching, error };
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrivalDetector, ArrivalState, GeofenceOptions } from '@/services/location/geofence';
+import { LocationFix } from '@/services/location/types';
+
+interface DetectorReading {
+  detector: ArrivalDetector | null;
+  state: ArrivalState;
+  distanceMeters: number | null;
+}
+
+/** Feeds location fixes into an ArrivalDetector for the given geofence. */
+export function useArrivalDetection(fix: LocationFix | null, geofence: GeofenceOptions | null) {
+  const [reading, setReading] = useState<DetectorReading>({ detector: null, state: 'outside', distanceMeters: null });
+
+  const detector = useMemo(
+    () => (geofence ? new ArrivalDetector(geofence) : null),
+    [geofence?.center.latitude, geofence?.center.longitude, geofence?.radiusMeters]
+  );
+
+  useEffect(() => {
+    if (!detector || !fix) return;
+    setReading({ detector, state: detector.update(fix), distanceMeters: detector.distanceTo(fix) });
+  }, [detector, fix]);
+
+  const dismiss = useCallback(() => {
+    if (!detector) return;
+    detector.dismiss();
+    setReading((prev) => ({ ...prev, detector, state: detector.getState() }));
+  }, [detector]);
+
+  // A reading from the previous geofence must not leak into the first render after it changes
+  const isCurrent = reading.detector === detector;
+  return {
+    state: isCurrent ? reading.state : detector?.getState() ?? 'outside',
+    distanceMeters: isCurrent ? reading.distanceMeters : null,
+    dismiss,
+  };
+}
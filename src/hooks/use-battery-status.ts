@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { BatteryState } from '@/services/location/cadence';
+
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+/** Battery level and charging state, or null where the Battery Status API is missing. */
+export function useBatteryStatus() {
+  const [battery, setBattery] = useState<BatteryState | null>(null);
+
+  useEffect(() => {
+    const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+    if (!nav.getBattery) return;
+
+    let manager: BatteryManager | null = null;
+    const update = () => {
+      if (manager) setBattery({ level: manager.level, charging: manager.charging });
+    };
+
+    nav
+      .getBattery()
+      .then((result) => {
+        manager = result;
+        update();
+        manager.addEventListener('levelchange', update);
+        manager.addEventListener('chargingchange', update);
+      })
+      .catch(() => setBattery(null));
+
+    return () => {
+      manager?.removeEventListener('levelchange', update);
+      manager?.removeEventListener('chargingchange', update);
+      manager = null;
+    };
+  }, []);
+
+  return battery;
+}
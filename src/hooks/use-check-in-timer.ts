@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from 'react';
+import { alertsApi } from '@/api/alerts';
+import locationTracker from '@/services/location/tracker';
+import { getTripJournal, updateTripJournal } from '@/services/tripJournal';
+import { parseApiDate } from '@/lib/dates';
+
+export type CheckInPhase = 'off' | 'waiting' | 'due' | 'missed';
+export type MissedAlertStatus = 'idle' | 'sending' | 'sent' | 'failed';
+
+interface MissedAlert {
+  /** The check-in deadline the alert is for */
+  deadline: string;
+  status: MissedAlertStatus;
+}
+
+// How long the prompt waits for an answer before contacts are alerted
+export const CHECK_IN_GRACE_MS = 2 * 60 * 1000;
+const VIBRATION_PATTERN = [400, 200, 400];
+const ALERT_RETRY_MS = 15000;
+
+/**
+ * Dead-man's switch for a trip: asks the user to check in every interval
+ * and raises a CHECK_IN alert when a prompt goes unanswered. The timer is
+ * off while the trip is paused.
+ */
+export function useCheckInTimer(tripId: string | null | undefined, startedAt?: string, paused = false) {
+  const [intervalMinutes, setIntervalMinutes] = useState<number | null>(null);
+  const [lastCheckInAt, setLastCheckInAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [missedAlert, setMissedAlert] = useState<MissedAlert | null>(null);
+
+  useEffect(() => {
+    if (!tripId) return;
+    const entry = getTripJournal(tripId);
+    setIntervalMinutes(entry.checkInIntervalMinutes ?? null);
+
+    const fallbackStart = parseApiDate(startedAt)?.getTime() ?? NaN;
+    const last = entry.lastCheckInAt ? Date.parse(entry.lastCheckInAt) : fallbackStart;
+    setLastCheckInAt(Number.isNaN(last) ? Date.now() : last);
+  }, [tripId, startedAt]);
+
+  const enabled = !!tripId && !!intervalMinutes && lastCheckInAt !== null && !paused;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const intervalId = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [enabled]);
+
+  const dueAt = enabled ? lastCheckInAt + intervalMinutes * 60 * 1000 : null;
+  const phase: CheckInPhase = !enabled
+    ? 'off'
+    : now < dueAt
+    ? 'waiting'
+    : now < dueAt + CHECK_IN_GRACE_MS
+    ? 'due'
+    : 'missed';
+
+  useEffect(() => {
+    if (phase === 'due' || phase === 'missed') navigator.vibrate?.(VIBRATION_PATTERN);
+  }, [phase, Math.floor(now / 10000)]);
+
+  // Keyed by deadline, so checking in resets it and a late reply can't mark the next deadline as alerted
+  const deadline = dueAt !== null ? new Date(dueAt).toISOString() : null;
+  const alertStatus: MissedAlertStatus = missedAlert?.deadline === deadline ? missedAlert.status : 'idle';
+
+  useEffect(() => {
+    if (phase !== 'missed' || alertStatus !== 'idle' || !tripId) return;
+
+    // Recorded before sending, so a remount or reload doesn't alert contacts twice for one deadline
+    if (getTripJournal(tripId).missedCheckInAlertFor === deadline) {
+      setMissedAlert({ deadline, status: 'sent' });
+      return;
+    }
+    updateTripJournal(tripId, (entry) => ({ ...entry, missedCheckInAlertFor: deadline }));
+    setMissedAlert({ deadline, status: 'sending' });
+
+    const settle = (status: MissedAlertStatus) =>
+      setMissedAlert((prev) => (prev?.deadline === deadline ? { deadline, status } : prev));
+
+    const fix = locationTracker.getLatestFix();
+    alertsApi
+      .createMissedCheckIn({
+        tripId,
+        latitude: fix?.latitude,
+        longitude: fix?.longitude,
+        lastCheckInAt: new Date(lastCheckInAt).toISOString(),
+        message: 'Missed scheduled check-in',
+      })
+      .then(() => settle('sent'))
+      .catch((err) => {
+        console.error('Failed to raise missed check-in alert:', err);
+        updateTripJournal(tripId, (entry) => ({ ...entry, missedCheckInAlertFor: undefined }));
+        settle('failed');
+        // Back to idle sends it again, unless a manual retry got there first
+        window.setTimeout(
+          () => setMissedAlert((prev) => (prev?.deadline === deadline && prev.status === 'failed' ? null : prev)),
+          ALERT_RETRY_MS
+        );
+      });
+  }, [phase, alertStatus, tripId, lastCheckInAt, deadline]);
+
+  const retryAlert = useCallback(() => {
+    setMissedAlert((prev) => (prev?.status === 'failed' ? null : prev));
+  }, []);
+
+  const checkIn = useCallback(() => {
+    if (!tripId) return;
+    const at = new Date();
+    updateTripJournal(tripId, (entry) => ({ ...entry, lastCheckInAt: at.toISOString() }));
+    setLastCheckInAt(at.getTime());
+    setNow(at.getTime());
+  }, [tripId]);
+
+  return {
+    phase,
+    intervalMinutes,
+    msUntilDue: dueAt !== null ? Math.max(0, dueAt - now) : null,
+    msUntilMissed: dueAt !== null ? Math.max(0, dueAt + CHECK_IN_GRACE_MS - now) : null,
+    alertStatus,
+    retryAlert,
+    checkIn,
+  };
+}
@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import locationTracker from '@/services/location/tracker';
+import { LocationProvider } from '@/services/location/types';
+
+const subscribe = (onChange: () => void) => locationTracker.subscribe(onChange);
+const getSnapshot = () => locationTracker.getState();
+
+/**
+ * Subscribes to the shared location tracker. When a provider is passed, the
+ * tracker is started with it for as long as the calling component is mounted.
+ */
+export function useLocationTracker(provider?: LocationProvider | null) {
+  useEffect(() => {
+    if (!provider) return;
+    locationTracker.start(provider);
+    return () => locationTracker.stop();
+  }, [provider]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
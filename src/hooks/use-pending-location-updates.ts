@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import locationQueue from '@/services/locationQueue';
+
+/** Number of location updates for a trip still waiting to reach the server. */
+export function usePendingLocationUpdates(tripId?: string | null) {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    if (!tripId) {
+      setCount(0);
+      return;
+    }
+
+    locationQueue.count(tripId).then(setCount);
+    return locationQueue.subscribe((changedTripId, pending) => {
+      if (changedTripId === tripId) setCount(pending);
+    });
+  }, [tripId]);
+
+  return count;
+}
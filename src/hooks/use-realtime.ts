@@ -0,0 +1,26 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import realtimeClient from '@/api/realtime';
+import { RealtimeEvent } from '@/models/types';
+
+const subscribeState = (onChange: () => void) => realtimeClient.subscribeState(onChange);
+const getSnapshot = () => realtimeClient.getState();
+
+/**
+ * Keeps the realtime channel open while the calling component is mounted and
+ * forwards every pushed event to the handler. Returns the connection state.
+ */
+export function useRealtime(onEvent: (event: RealtimeEvent) => void) {
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    const release = realtimeClient.retain();
+    const unsubscribe = realtimeClient.subscribe((event) => handlerRef.current(event));
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, []);
+
+  return useSyncExternalStore(subscribeState, getSnapshot);
+}
@@ -0,0 +1,38 @@
+import { useCallback, useRef, useState } from 'react';
+import { Coordinates } from '@/lib/geo';
+import { getGeocoder } from '@/services/geocoding/createGeocoder';
+import { GeocodeResult } from '@/services/geocoding/types';
+
+/**
+ * Looks up the address at a point. Only the latest lookup resolves with a
+ * place; superseded or cancelled ones, and every lookup while geocoding is
+ * turned off, resolve with null.
+ */
+export function useReverseGeocode() {
+  const [isResolving, setIsResolving] = useState(false);
+  const latestRef = useRef(0);
+
+  const resolve = useCallback(async (coordinates: Coordinates): Promise<GeocodeResult | null> => {
+    const lookup = ++latestRef.current;
+    const geocoder = getGeocoder();
+    if (!geocoder) return null;
+
+    setIsResolving(true);
+    try {
+      const place = await geocoder.reverse(coordinates);
+      return lookup === latestRef.current ? place : null;
+    } catch (err) {
+      console.error('Reverse geocoding failed:', err);
+      return null;
+    } finally {
+      if (lookup === latestRef.current) setIsResolving(false);
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    latestRef.current++;
+    setIsResolving(false);
+  }, []);
+
+  return { resolve, cancel, isResolving };
+}
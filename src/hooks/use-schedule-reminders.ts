@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addMinutes } from 'date-fns';
+import { toast } from '@/components/ui/sonner';
+import { tripSchedulesApi } from '@/api/tripSchedules';
+import { tripsApi } from '@/api/trips';
+import { TripScheduleResponse } from '@/models/types';
+import { getNextDeparture, onSchedulesChanged, startTripPath } from '@/services/tripSchedules';
+import { formatTime } from '@/lib/dates';
+
+const STORAGE_KEY = 'safewalk_schedule_reminders';
+// A reminder missed while the app was closed still fires if departure was this recent
+const LATE_REMINDER_MS = 30 * 60 * 1000;
+// Timers in background tabs drift, so the next reminder is re-planned at least this often
+const MAX_WAIT_MS = 60 * 60 * 1000;
+
+interface PendingReminder {
+  schedule: TripScheduleResponse;
+  departure: Date;
+  remindAt: Date;
+}
+
+// Last departure reminded about, per schedule
+function readReminded(): Record<string, string> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function markReminded(scheduleId: string, departure: Date) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readReminded(), [scheduleId]: departure.toISOString() }));
+}
+
+function findNextReminder(schedules: TripScheduleResponse[], now: number): PendingReminder | null {
+  const reminded = readReminded();
+  let next: PendingReminder | null = null;
+
+  for (const schedule of schedules) {
+    if (!schedule.enabled || schedule.reminderMinutesBefore == null) continue;
+
+    let departure = getNextDeparture(schedule, new Date(now - LATE_REMINDER_MS));
+    if (departure && reminded[schedule.id] === departure.toISOString()) {
+      departure = getNextDeparture(schedule, addMinutes(departure, 1));
+    }
+    if (!departure) continue;
+
+    const remindAt = addMinutes(departure, -schedule.reminderMinutesBefore);
+    if (!next || remindAt < next.remindAt) next = { schedule, departure, remindAt };
+  }
+  return next;
+}
+
+/**
+ * Reminds the user to start their scheduled trips while the app is open.
+ * Uses a system notification when the app is in the background and
+ * permission was granted, and an in-app toast otherwise. The "not started
+ * by" safeguard runs on the backend, so it does not depend on this.
+ */
+export function useScheduleReminders() {
+  const navigate = useNavigate();
+  const [schedules, setSchedules] = useState<TripScheduleResponse[]>([]);
+
+  useEffect(() => {
+    // Reminders are a convenience; failing to load them is not worth an error
+    const load = () => tripSchedulesApi.list().then(setSchedules).catch(() => undefined);
+    load();
+    return onSchedulesChanged(load);
+  }, []);
+
+  useEffect(() => {
+    if (schedules.length === 0) return;
+    let timeoutId: number | undefined;
+
+    const remind = async ({ schedule, departure }: PendingReminder) => {
+      markReminded(schedule.id, departure);
+
+      const activeTrip = await tripsApi.getActive().catch(() => null);
+      if (activeTrip) return;
+
+      const path = startTripPath(schedule.id);
+      const title = `Time to leave: ${schedule.name}`;
+      const body = `${schedule.destinationName} at ${formatTime(departure)}. Start your trip when you head out.`;
+
+      if (document.visibilityState === 'hidden' && 'Notification' in window && Notification.permission === 'granted') {
+        const notification = new Notification(title, { body, tag: `schedule-${schedule.id}` });
+        notification.onclick = () => {
+          window.focus();
+          navigate(path);
+          notification.close();
+        };
+      } else {
+        toast(title, {
+          description: body,
+          duration: Infinity,
+          action: { label: 'Start', onClick: () => navigate(path) },
+        });
+      }
+    };
+
+    const plan = () => {
+      window.clearTimeout(timeoutId);
+      const now = Date.now();
+      const next = findNextReminder(schedules, now);
+      if (!next) return;
+
+      const wait = next.remindAt.getTime() - now;
+      if (wait <= 0) {
+        remind(next);
+        plan();
+        return;
+      }
+      timeoutId = window.setTimeout(plan, Math.min(wait, MAX_WAIT_MS));
+    };
+
+    plan();
+    document.addEventListener('visibilitychange', plan);
+    return () => {
+      window.clearTimeout(timeoutId);
+      document.removeEventListener('visibilitychange', plan);
+    };
+  }, [schedules, navigate]);
+}
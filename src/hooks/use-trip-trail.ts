@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { Coordinates, haversineMeters } from '@/lib/geo';
+import { LocationFix } from '@/services/location/types';
+import { getBreadcrumbs } from '@/services/breadcrumbs';
+
+// Fixes closer than this to the previous point add nothing visible to the trail
+const MIN_STEP_METERS = 3;
+
+/**
+ * The path walked so far: the breadcrumbs already recorded for the trip,
+ * extended with every new fix.
+ */
+export function useTripTrail(tripId: string | undefined, fix: LocationFix | null) {
+  const [trail, setTrail] = useState<Coordinates[]>([]);
+
+  useEffect(() => {
+    setTrail([]);
+    if (!tripId) return;
+
+    let cancelled = false;
+    getBreadcrumbs(tripId).then((points) => {
+      if (!cancelled) setTrail((current) => [...points, ...current]);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [tripId]);
+
+  useEffect(() => {
+    if (!tripId || !fix) return;
+    setTrail((current) => {
+      const last = current[current.length - 1];
+      if (last && haversineMeters(last, fix) < MIN_STEP_METERS) return current;
+      return [...current, { latitude: fix.latitude, longitude: fix.longitude }];
+    });
+  }, [tripId, fix]);
+
+  return trail;
+}
@@ -0,0 +1,199 @@
+/*
+ * One place for turning backend timestamps into Dates and Dates into text.
+ * Response schemas run every timestamp through normalizeApiDate, so the rest of
+ * the app only ever sees ISO strings in UTC; the format helpers below follow the
+ * browser's locale and time zone and the user's 12/24-hour choice.
+ */
+
+export type TimeFormat = 'system' | '12h' | '24h';
+export type DateInput = Date | string | number | null | undefined;
+
+export interface FormatOptions {
+  /** IANA zone to show the time in; the device's zone when omitted */
+  timeZone?: string;
+  /** Shown for missing or unreadable values */
+  fallback?: string;
+}
+
+const TIME_FORMAT_KEY = 'safewalk_time_format';
+
+export const TIME_FORMAT_OPTIONS: { value: TimeFormat; label: string }[] = [
+  { value: 'system', label: 'System' },
+  { value: '12h', label: '12-hour' },
+  { value: '24h', label: '24-hour' },
+];
+
+function resolveApiTimeZone(): string {
+  const timeZone = import.meta.env.VITE_API_TIME_ZONE || 'UTC';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    console.warn(`Unknown VITE_API_TIME_ZONE "${timeZone}", reading timestamps as UTC`);
+    return 'UTC';
+  }
+}
+
+/** Zone the backend means when it sends a timestamp without an offset */
+export const API_TIME_ZONE = resolveApiTimeZone();
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?$/;
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(new Date(instant)).map((part) => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/** The instant at which the wall clock in `timeZone` shows the given fields */
+function fromZonedFields(fields: number[], timeZone: string): number {
+  const [year, month, day, hour = 0, minute = 0, second = 0, ms = 0] = fields;
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+  if (timeZone === 'UTC') return asUtc;
+
+  const guess = asUtc - zoneOffsetMs(asUtc, timeZone);
+  // Near a DST change the offset at the guess can differ from the one at asUtc
+  return asUtc - zoneOffsetMs(guess, timeZone);
+}
+
+/**
+ * Converts a backend timestamp to an ISO string in UTC. Accepts ISO strings
+ * (with microseconds or a space separator too), epoch seconds or milliseconds,
+ * and Java's [year, month, day, hour, minute, second, nanos] arrays. Values
+ * without an offset are read in API_TIME_ZONE.
+ */
+export function normalizeApiDate(value: string | number | number[]): string | null {
+  let instant: number;
+
+  if (typeof value === 'number') {
+    // Anything before 2001 in milliseconds is taken to be in seconds
+    instant = value < 1e12 ? value * 1000 : value;
+  } else if (Array.isArray(value)) {
+    const [year, month, day, hour, minute, second, nanos = 0] = value;
+    instant = fromZonedFields([year, month, day, hour, minute, second, Math.floor(nanos / 1e6)], API_TIME_ZONE);
+  } else {
+    const text = value.trim();
+    const local = LOCAL_DATE_TIME.exec(text);
+    if (local) {
+      const [, year, month, day, hour, minute, second, fraction = ''] = local;
+      const fields = [year, month, day, hour, minute, second, fraction.padEnd(3, '0').slice(0, 3)];
+      instant = fromZonedFields(fields.map((field) => Number(field ?? 0)), API_TIME_ZONE);
+    } else {
+      // Engines disagree on fractions longer than milliseconds
+      instant = Date.parse(text.replace(/^(\d{4}-\d{2}-\d{2}) /, '$1T').replace(/(\.\d{3})\d+/, '$1'));
+    }
+  }
+
+  return Number.isFinite(instant) ? new Date(instant).toISOString() : null;
+}
+
+/** Reads a backend timestamp, or null when it is missing or unreadable */
+export function parseApiDate(value?: string | null): Date | null {
+  const normalized = value ? normalizeApiDate(value) : null;
+  return normalized ? new Date(normalized) : null;
+}
+
+function toDate(value: DateInput): Date | null {
+  if (value == null || value === '') return null;
+
+  const date = typeof value === 'string' ? parseApiDate(value) : new Date(value);
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+export function getTimeFormat(): TimeFormat {
+  const stored = localStorage.getItem(TIME_FORMAT_KEY);
+  return stored === '12h' || stored === '24h' ? stored : 'system';
+}
+
+export function saveTimeFormat(timeFormat: TimeFormat) {
+  if (timeFormat === 'system') {
+    localStorage.removeItem(TIME_FORMAT_KEY);
+  } else {
+    localStorage.setItem(TIME_FORMAT_KEY, timeFormat);
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatWith(
+  value: DateInput,
+  options: Intl.DateTimeFormatOptions,
+  { timeZone, fallback = '—' }: FormatOptions
+) {
+  const date = toDate(value);
+  if (!date) return fallback;
+
+  const timeFormat = options.hour ? getTimeFormat() : 'system';
+  const resolved: Intl.DateTimeFormatOptions = {
+    ...options,
+    timeZone,
+    // hourCycle rather than hour12: false, which shows midnight as 24:00 in some browsers
+    ...(timeFormat === '12h' && { hour12: true }),
+    ...(timeFormat === '24h' && { hourCycle: 'h23' as const }),
+  };
+
+  const key = JSON.stringify(resolved);
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(undefined, resolved);
+    formatters.set(key, formatter);
+  }
+  return formatter.format(date);
+}
+
+/** "2:05 PM" or "14:05" */
+export function formatTime(value: DateInput, options: FormatOptions & { seconds?: boolean } = {}) {
+  return formatWith(
+    value,
+    { hour: 'numeric', minute: '2-digit', ...(options.seconds && { second: '2-digit' }) },
+    options
+  );
+}
+
+/** "December 31, 2025" */
+export function formatDate(value: DateInput, options: FormatOptions = {}) {
+  return formatWith(value, { year: 'numeric', month: 'long', day: 'numeric' }, options);
+}
+
+/** "Wed, Dec 31" */
+export function formatShortDay(value: DateInput, options: FormatOptions = {}) {
+  return formatWith(value, { weekday: 'short', month: 'short', day: 'numeric' }, options);
+}
+
+/** "Dec 31, 2025, 2:05 PM" */
+export function formatDateTime(value: DateInput, options: FormatOptions = {}) {
+  return formatWith(
+    value,
+    { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' },
+    options
+  );
+}
+
+/** "Wed, Dec 31, 2:05 PM" */
+export function formatShortDayTime(value: DateInput, options: FormatOptions = {}) {
+  return formatWith(
+    value,
+    { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' },
+    options
+  );
+}
@@ -0,0 +1,48 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function haversineMeters(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function interpolate(from: Coordinates, to: Coordinates, fraction: number): Coordinates {
+  return {
+    latitude: from.latitude + (to.latitude - from.latitude) * fraction,
+    longitude: from.longitude + (to.longitude - from.longitude) * fraction,
+  };
+}
+
+// Moves a point by a distance in meters along east/north axes. Accurate enough for short offsets.
+export function offsetMeters(origin: Coordinates, eastMeters: number, northMeters: number): Coordinates {
+  const dLat = northMeters / EARTH_RADIUS_METERS;
+  const dLng = eastMeters / (EARTH_RADIUS_METERS * Math.cos(toRadians(origin.latitude)));
+  return {
+    latitude: origin.latitude + (dLat * 180) / Math.PI,
+    longitude: origin.longitude + (dLng * 180) / Math.PI,
+  };
+}
+
+/**
+ * Reads "lat, lng" out of pasted text, including map links such as
+ * ".../@37.7749,-122.4194,15z". Returns null unless both values are in range.
+ */
+export function parseCoordinates(text: string): Coordinates | null {
+  const match = text.match(/(?<![\d.])(-?\d{1,2}(?:\.\d+)?)\s*[,\s]\s*(-?\d{1,3}(?:\.\d+)?)/);
+  if (!match) return null;
+
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
@@ -0,0 +1,77 @@
+const DB_NAME = 'safewalk';
+const DB_VERSION = 3;
+
+export const STORES = {
+  locationQueue: 'locationQueue',
+  breadcrumbs: 'breadcrumbs',
+  secrets: 'secrets',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(STORES.locationQueue)) {
+    const store = db.createObjectStore(STORES.locationQueue, { keyPath: 'id', autoIncrement: true });
+    store.createIndex('tripId', 'tripId');
+  }
+  if (!db.objectStoreNames.contains(STORES.breadcrumbs)) {
+    const store = db.createObjectStore(STORES.breadcrumbs, { keyPath: 'id', autoIncrement: true });
+    store.createIndex('tripId', 'tripId');
+    store.createIndex('recordedAt', 'recordedAt');
+  }
+  if (!db.objectStoreNames.contains(STORES.secrets)) {
+    db.createObjectStore(STORES.secrets);
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against an object store and resolves with its result
+ * once the surrounding transaction has committed.
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const result = promisify(run(transaction.objectStore(storeName)));
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  // A failed request rejects both; awaiting them together keeps either from going unhandled
+  const [, value] = await Promise.all([done, result]);
+  return value;
+}
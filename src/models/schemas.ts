@@ -0,0 +1,289 @@
+import { z } from 'zod';
+import {
+  AlertResponse,
+  AlertStatus,
+  AlertType,
+  AuthTokens,
+  LocationUpdateResponse,
+  RealtimeEvent,
+  RoutePoint,
+  SavedLocationResponse,
+  TransportMode,
+  TripExtensionResponse,
+  TripResponse,
+  TripScheduleResponse,
+  TripStatus,
+  TripTemplateResponse,
+  TripTemplateWaypointResponse,
+  TripWaypointResponse,
+  TrustedContactResponse,
+  UserResponse,
+  Weekday,
+} from './types';
+import { normalizeApiDate } from '@/lib/dates';
+
+/*
+ * Runtime checks for everything the backend sends. Each schema is typed against
+ * its interface in ./types, so the two can't drift apart silently, and is the one
+ * place where field aliases the backend has used are normalized. Timestamps go
+ * through the date layer in lib/dates.
+ */
+
+type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Without strictNullChecks zod infers every key as optional, so the check against T covers field types only
+const responseSchema = <T>(schema: z.ZodType<Partial<T>, z.ZodTypeDef, unknown>) => schema as ResponseSchema<T>;
+
+// The backend sends null for empty fields; the app's types use undefined
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.nullish().transform((value) => value ?? undefined);
+
+/** Copies a field sent under an older name to its current one */
+const withAliases = <T extends z.ZodTypeAny>(aliases: Record<string, string>, schema: T) =>
+  z.preprocess((data) => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return data;
+
+    const record = { ...(data as Record<string, unknown>) };
+    Object.entries(aliases).forEach(([alias, field]) => {
+      if (record[field] == null && record[alias] != null) record[field] = record[alias];
+    });
+    return record;
+  }, schema);
+
+const apiDate = z.union([z.string(), z.number(), z.array(z.number()).min(3)]).transform((value, ctx) => {
+  const normalized = normalizeApiDate(value);
+  if (normalized === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid date: ${JSON.stringify(value)}` });
+    return z.NEVER;
+  }
+  return normalized;
+});
+
+// Java's LocalTime is sent as "HH:mm:ss"
+const timeOfDay = z
+  .string()
+  .regex(/^\d{2}:\d{2}/)
+  .transform((value) => value.slice(0, 5));
+
+// Auth
+export const authTokensSchema = responseSchema<AuthTokens>(
+  z.object({
+    accessToken: z.string().min(1),
+    refreshToken: optional(z.string()),
+  })
+);
+
+// Users
+export const userResponseSchema = responseSchema<UserResponse>(
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    email: z.string(),
+    phoneNumber: z.string(),
+    createdAt: apiDate,
+    updatedAt: apiDate,
+  })
+);
+
+// Saved locations
+export const savedLocationResponseSchema = responseSchema<SavedLocationResponse>(
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    radiusMeters: z.number(),
+    address: optional(z.string()),
+    userId: z.string(),
+    createdAt: apiDate,
+    updatedAt: apiDate,
+  })
+);
+
+// Trusted contacts
+export const trustedContactResponseSchema = responseSchema<TrustedContactResponse>(
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    phoneNumber: z.string(),
+    email: optional(z.string()),
+    priority: z.number(),
+    relationship: optional(z.string()),
+    userId: z.string(),
+    createdAt: apiDate,
+    updatedAt: apiDate,
+  })
+);
+
+// Trips
+export const transportModeSchema: ResponseSchema<TransportMode> = z.enum(['WALKING', 'BICYCLING', 'DRIVING']);
+export const tripStatusSchema: ResponseSchema<TripStatus> = z.enum(['ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED']);
+
+export const tripExtensionResponseSchema = responseSchema<TripExtensionResponse>(
+  z.object({
+    id: z.string(),
+    minutes: z.number(),
+    reason: optional(z.string()),
+    createdAt: apiDate,
+    expectedArrivalAt: apiDate,
+  })
+);
+
+export const tripWaypointResponseSchema = responseSchema<TripWaypointResponse>(
+  z.object({
+    id: z.string(),
+    order: z.number(),
+    destinationId: optional(z.string()),
+    name: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    radiusMeters: optional(z.number()),
+    arrivedAt: optional(apiDate),
+  })
+);
+
+export const tripResponseSchema = responseSchema<TripResponse>(
+  withAliases(
+    { startTime: 'startedAt' },
+    z.object({
+      id: z.string(),
+      userId: z.string(),
+      destinationId: optional(z.string()),
+      destinationName: z.string(),
+      destinationLatitude: z.number(),
+      destinationLongitude: z.number(),
+      startLatitude: optional(z.number()),
+      startLongitude: optional(z.number()),
+      transportMode: transportModeSchema,
+      status: tripStatusSchema,
+      estimatedDistanceKm: z.number(),
+      estimatedTimeMinutes: z.number(),
+      startedAt: apiDate,
+      completedAt: optional(apiDate),
+      cancelledAt: optional(apiDate),
+      contactIds: optional(z.array(z.string())),
+      waypoints: optional(z.array(tripWaypointResponseSchema)),
+      expectedArrivalAt: optional(apiDate),
+      extensions: optional(z.array(tripExtensionResponseSchema)),
+      pausedAt: optional(apiDate),
+      pauseEndsAt: optional(apiDate),
+    })
+  )
+);
+
+export const locationUpdateResponseSchema = responseSchema<LocationUpdateResponse>(
+  z.object({
+    tripId: z.string(),
+    distanceRemainingKm: z.number(),
+    estimatedTimeRemainingMinutes: z.number(),
+    onTrack: z.boolean(),
+    warningMessage: optional(z.string()),
+    updatedAt: apiDate,
+  })
+);
+
+export const routePointSchema = responseSchema<RoutePoint>(
+  z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    accuracy: optional(z.number()),
+    speed: optional(z.number()),
+    timestamp: apiDate,
+  })
+);
+
+// Trip templates
+export const tripTemplateWaypointResponseSchema = responseSchema<TripTemplateWaypointResponse>(
+  z.object({
+    destinationId: optional(z.string()),
+    name: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    radiusMeters: optional(z.number()),
+  })
+);
+
+export const tripTemplateResponseSchema = responseSchema<TripTemplateResponse>(
+  z.object({
+    id: z.string(),
+    userId: z.string(),
+    name: z.string(),
+    destinationId: optional(z.string()),
+    destinationName: z.string(),
+    destinationLatitude: z.number(),
+    destinationLongitude: z.number(),
+    destinationRadiusMeters: optional(z.number()),
+    waypoints: optional(z.array(tripTemplateWaypointResponseSchema)),
+    transportMode: transportModeSchema,
+    checkInIntervalMinutes: optional(z.number()),
+    contactIds: optional(z.array(z.string())),
+  })
+);
+
+// Trip schedules
+export const weekdaySchema: ResponseSchema<Weekday> = z.enum([
+  'MONDAY',
+  'TUESDAY',
+  'WEDNESDAY',
+  'THURSDAY',
+  'FRIDAY',
+  'SATURDAY',
+  'SUNDAY',
+]);
+
+export const tripScheduleResponseSchema = responseSchema<TripScheduleResponse>(
+  z.object({
+    id: z.string(),
+    userId: z.string(),
+    name: z.string(),
+    destinationId: z.string(),
+    destinationName: z.string(),
+    transportMode: transportModeSchema,
+    departureTime: timeOfDay,
+    days: z.array(weekdaySchema),
+    date: optional(z.string()),
+    timeZone: z.string(),
+    checkInIntervalMinutes: optional(z.number()),
+    contactIds: optional(z.array(z.string())),
+    reminderMinutesBefore: optional(z.number()),
+    startDeadlineMinutes: optional(z.number()),
+    enabled: z.boolean(),
+  })
+);
+
+// Alerts
+export const alertTypeSchema: ResponseSchema<AlertType> = z.enum([
+  'STOPPED',
+  'DEVIATION',
+  'DELAYED',
+  'SOS',
+  'CHECK_IN',
+]);
+export const alertStatusSchema: ResponseSchema<AlertStatus> = z.enum(['PENDING', 'RESPONDED', 'ESCALATED']);
+
+// Jackson drops the "is" from boolean getters, so isOk can arrive as ok
+export const alertResponseSchema = responseSchema<AlertResponse>(
+  withAliases(
+    { ok: 'isOk' },
+    z.object({
+      id: z.string(),
+      tripId: z.string(),
+      type: alertTypeSchema,
+      status: alertStatusSchema,
+      message: z.string(),
+      latitude: optional(z.number()),
+      longitude: optional(z.number()),
+      createdAt: apiDate,
+      respondedAt: optional(apiDate),
+      isOk: optional(z.boolean()),
+      responseMessage: optional(z.string()),
+    })
+  )
+);
+
+// Realtime
+export const realtimeEventSchema = responseSchema<RealtimeEvent>(
+  z.discriminatedUnion('type', [
+    z.object({ type: z.literal('ALERT'), payload: alertResponseSchema }),
+    z.object({ type: z.literal('LOCATION_UPDATE'), payload: locationUpdateResponseSchema }),
+  ])
+);
@@ -1,7 +1,8 @@
 // Auth Types
 export interface AuthTokens {
   accessToken: string;
-  refreshToken: string;
+  /** Omitted by backends that keep it in an httpOnly cookie */
+  refreshToken?: string;
 }
 
 export interface LoginRequest {
@@ -9,6 +10,10 @@ export interface LoginRequest {
   password: string;
 }
 
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
 export interface RegisterRequest {
   name: string;
   email: string;
@@ -75,19 +80,43 @@ export interface TrustedContactResponse {
 
 // Trip Types
 export type TransportMode = 'WALKING' | 'BICYCLING' | 'DRIVING';
-export type TripStatus = 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
+export type TripStatus = 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+
+/** A one-off destination that is not a saved location */
+export interface AdHocDestinationRequest {
+  name: string;
+  latitude: number;
+  longitude: number;
+  address?: string;
+  radiusMeters?: number;
+}
+
+/** A stop on the way to the destination: a saved location or an ad-hoc place */
+export interface TripWaypointRequest {
+  destinationId?: string;
+  destination?: AdHocDestinationRequest;
+}
 
 export interface StartTripRequest {
-  destinationId: string;
+  /** Either a saved location or an ad-hoc destination must be given */
+  destinationId?: string;
+  destination?: AdHocDestinationRequest;
+  /** Stops visited in order before the destination */
+  waypoints?: TripWaypointRequest[];
   currentLatitude?: number;
   currentLongitude?: number;
   transportMode: TransportMode;
+  /** Trusted contacts notified about this trip; the backend decides when omitted */
+  contactIds?: string[];
+  /** Set when started from a schedule, so the backend stands its start safeguard down */
+  scheduleId?: string;
 }
 
 export interface TripResponse {
   id: string;
   userId: string;
-  destinationId: string;
+  /** Missing for trips to an ad-hoc destination */
+  destinationId?: string;
   destinationName: string;
   destinationLatitude: number;
   destinationLongitude: number;
@@ -100,6 +129,121 @@ export interface TripResponse {
   startedAt: string;
   completedAt?: string;
   cancelledAt?: string;
+  contactIds?: string[];
+  /** Stops before the destination, in visiting order */
+  waypoints?: TripWaypointResponse[];
+  /** When the backend expects arrival; delay detection runs against this */
+  expectedArrivalAt?: string;
+  /** ETA extensions asked for during the trip, oldest first */
+  extensions?: TripExtensionResponse[];
+  /** Set while the trip is PAUSED */
+  pausedAt?: string;
+  /** When the current pause runs out and monitoring resumes by itself */
+  pauseEndsAt?: string;
+}
+
+export interface PauseTripRequest {
+  minutes: number;
+  reason?: string;
+}
+
+export interface ResumeTripRequest {
+  /** The pause ran out rather than being ended by the user; contacts are told */
+  expired?: boolean;
+}
+
+export interface ExtendTripRequest {
+  minutes: number;
+  reason?: string;
+}
+
+export interface TripExtensionResponse {
+  id: string;
+  minutes: number;
+  reason?: string;
+  createdAt: string;
+  /** Expected arrival once this extension was applied */
+  expectedArrivalAt: string;
+}
+
+export interface TripWaypointResponse {
+  id: string;
+  order: number;
+  /** Missing for ad-hoc stops */
+  destinationId?: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters?: number;
+  arrivedAt?: string;
+}
+
+// Trip Template Types
+export interface TripTemplateRequest {
+  name: string;
+  /** Either a saved location or an ad-hoc destination must be given */
+  destinationId?: string;
+  destination?: AdHocDestinationRequest;
+  waypoints?: TripWaypointRequest[];
+  transportMode: TransportMode;
+  checkInIntervalMinutes?: number;
+  contactIds?: string[];
+}
+
+/** A template stop, resolved to a name and coordinates */
+export interface TripTemplateWaypointResponse {
+  /** Missing for ad-hoc stops */
+  destinationId?: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters?: number;
+}
+
+export interface TripTemplateResponse {
+  id: string;
+  userId: string;
+  name: string;
+  /** Missing for templates to an ad-hoc destination */
+  destinationId?: string;
+  destinationName: string;
+  destinationLatitude: number;
+  destinationLongitude: number;
+  destinationRadiusMeters?: number;
+  waypoints?: TripTemplateWaypointResponse[];
+  transportMode: TransportMode;
+  checkInIntervalMinutes?: number;
+  contactIds?: string[];
+}
+
+// Trip Schedule Types
+export type Weekday = 'MONDAY' | 'TUESDAY' | 'WEDNESDAY' | 'THURSDAY' | 'FRIDAY' | 'SATURDAY' | 'SUNDAY';
+
+export interface TripScheduleRequest {
+  name: string;
+  destinationId: string;
+  transportMode: TransportMode;
+  /** Local departure time, "HH:mm" */
+  departureTime: string;
+  /** Days the trip repeats on; empty for a one-off trip on `date` */
+  days: Weekday[];
+  /** "yyyy-MM-dd", only for one-off trips */
+  date?: string;
+  /** IANA zone the departure time is in, e.g. "Europe/Berlin" */
+  timeZone: string;
+  checkInIntervalMinutes?: number;
+  contactIds?: string[];
+  /** Minutes before departure to remind the user; omitted for no reminder */
+  reminderMinutesBefore?: number;
+  /** Minutes after departure at which contacts are alerted if no trip was started; omitted when off */
+  startDeadlineMinutes?: number;
+  enabled: boolean;
+}
+
+export interface TripScheduleResponse extends TripScheduleRequest {
+  id: string;
+  userId: string;
+  destinationName: string;
 }
 
 export interface LocationUpdateRequest {
@@ -119,6 +263,14 @@ export interface LocationUpdateResponse {
   updatedAt: string;
 }
 
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  speed?: number;
+  timestamp: string;
+}
+
 // Alert Types
 export type AlertType = 'STOPPED' | 'DEVIATION' | 'DELAYED' | 'SOS' | 'CHECK_IN';
 export type AlertStatus = 'PENDING' | 'RESPONDED' | 'ESCALATED';
@@ -142,6 +294,29 @@ export interface RespondToAlertRequest {
   message?: string;
 }
 
+export interface CreateCheckInAlertRequest {
+  tripId: string;
+  latitude?: number;
+  longitude?: number;
+  lastCheckInAt: string;
+  message?: string;
+}
+
+export interface CreateSosAlertRequest {
+  tripId?: string;
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  silent: boolean;
+  message?: string;
+  timestamp: string;
+}
+
+// Realtime Types
+export type RealtimeEvent =
+  | { type: 'ALERT'; payload: AlertResponse }
+  | { type: 'LOCATION_UPDATE'; payload: LocationUpdateResponse };
+
 // API Error
 export interface ApiError {
   status: number;
@@ -1,14 +1,19 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
-import { MapPin, Navigation, Trash2 } from 'lucide-react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { MapPin, Trash2 } from 'lucide-react';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { PrimaryButton } from '@/components/shared/PrimaryButton';
 import { FormTextInput } from '@/components/shared/FormTextInput';
 import { LoadingState } from '@/components/shared/LoadingState';
 import { ErrorBanner } from '@/components/shared/ErrorBanner';
 import { ConfirmDialog } from '@/components/shared/ConfirmDialog';
+import { LocationPicker } from '@/components/map/LocationPicker';
+import { AddressSearchInput } from '@/components/locations/AddressSearchInput';
 import { savedLocationsApi } from '@/api/savedLocations';
 import { SavedLocationRequest, ApiError } from '@/models/types';
+import { Coordinates } from '@/lib/geo';
+import { useReverseGeocode } from '@/hooks/use-reverse-geocode';
+import { GeocodeResult } from '@/services/geocoding/types';
 import { z } from 'zod';
 
 const locationSchema = z.object({
@@ -19,9 +24,16 @@ const locationSchema = z.object({
   address: z.string().optional(),
 });
 
+/** Router state for opening the form from another flow and coming back to it */
+export interface LocationFormReturnState {
+  returnTo: string;
+  returnState?: Record<string, unknown>;
+}
+
 export function LocationFormPage() {
   const navigate = useNavigate();
   const { locationId } = useParams<{ locationId: string }>();
+  const returnTarget = useLocation().state as LocationFormReturnState | null;
   const isEditing = !!locationId;
 
   const [formData, setFormData] = useState<SavedLocationRequest>({
@@ -37,6 +49,7 @@ export function LocationFormPage() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const reverseGeocode = useReverseGeocode();
 
   useEffect(() => {
     if (isEditing) {
@@ -71,17 +84,30 @@ export function LocationFormPage() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
-  const handleUseCurrentLocation = () => {
-    // Simulate GPS retrieval
-    const mockLat = 37.7749 + (Math.random() - 0.5) * 0.1;
-    const mockLng = -122.4194 + (Math.random() - 0.5) * 0.1;
+  // Moving the pin fills in the address
+  const handlePinChange = async (coordinates: Coordinates) => {
+    setFormData((prev) => ({ ...prev, ...coordinates }));
+
+    const place = await reverseGeocode.resolve(coordinates);
+    if (place) setFormData((prev) => ({ ...prev, address: place.label }));
+  };
+
+  const handleAddressSelect = (result: GeocodeResult) => {
+    reverseGeocode.cancel();
     setFormData((prev) => ({
       ...prev,
-      latitude: parseFloat(mockLat.toFixed(6)),
-      longitude: parseFloat(mockLng.toFixed(6)),
+      address: result.label,
+      latitude: parseFloat(result.latitude.toFixed(6)),
+      longitude: parseFloat(result.longitude.toFixed(6)),
     }));
   };
 
+  // 0,0 is what the form starts with, so treat it as "no pin yet"
+  const pin =
+    formData.latitude || formData.longitude
+      ? { latitude: formData.latitude, longitude: formData.longitude }
+      : null;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -103,10 +129,17 @@ export function LocationFormPage() {
     try {
       if (isEditing) {
         await savedLocationsApi.update(locationId!, formData);
+        navigate('/locations');
       } else {
-        await savedLocationsApi.create(formData);
+        const created = await savedLocationsApi.create(formData);
+        if (returnTarget?.returnTo) {
+          navigate(returnTarget.returnTo, {
+            state: { ...returnTarget.returnState, selectedLocationId: created.id },
+          });
+        } else {
+          navigate('/locations');
+        }
       }
-      navigate('/locations');
     } catch (err) {
       const apiError = err as ApiError;
       setError(apiError.message || 'Failed to save location');
@@ -143,7 +176,8 @@ export function LocationFormPage() {
       <PageHeader
         title={isEditing ? 'Edit Location' : 'Add Location'}
         showBack
-        backPath="/locations"
+        backPath={returnTarget?.returnTo ?? '/locations'}
+        backState={returnTarget?.returnState}
       />
 
       <div className="p-4">
@@ -162,14 +196,29 @@ export function LocationFormPage() {
             error={fieldErrors.name}
           />
 
-          <FormTextInput
+          <AddressSearchInput
             label="Address (Optional)"
             value={formData.address}
-            onChange={handleChange('address')}
-            placeholder="123 Main St, City"
+            onChange={(address) => setFormData((prev) => ({ ...prev, address }))}
+            onSelect={handleAddressSelect}
+            placeholder="Search for an address"
+            helpText={reverseGeocode.isResolving ? 'Looking up address...' : undefined}
             error={fieldErrors.address}
           />
 
+          <div className="space-y-2">
+            <LocationPicker
+              value={pin}
+              radiusMeters={formData.radiusMeters}
+              onChange={handlePinChange}
+              onRadiusChange={(radiusMeters) => setFormData((prev) => ({ ...prev, radiusMeters }))}
+              onError={setError}
+            />
+            <p className="text-sm text-muted-foreground">
+              Tap to drop a pin, drag it to adjust, and drag the circle's handle to resize the safe zone.
+            </p>
+          </div>
+
           <div className="grid grid-cols-2 gap-3">
             <FormTextInput
               label="Latitude"
@@ -191,16 +240,6 @@ export function LocationFormPage() {
             />
           </div>
 
-          <PrimaryButton
-            type="button"
-            variant="outline"
-            fullWidth
-            onClick={handleUseCurrentLocation}
-          >
-            <Navigation className="h-4 w-4 mr-2" />
-            Use Current Location
-          </PrimaryButton>
-
           <FormTextInput
             label="Radius (meters)"
             type="number"
@@ -1,14 +1,18 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { User, Mail, Phone, Edit2, LogOut, Trash2, Shield, ChevronRight } from 'lucide-react';
+import { User, Mail, Phone, Edit2, LogOut, Trash2, Shield, ChevronRight, Siren, Clock } from 'lucide-react';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { PrimaryButton } from '@/components/shared/PrimaryButton';
 import { FormTextInput } from '@/components/shared/FormTextInput';
 import { ErrorBanner } from '@/components/shared/ErrorBanner';
 import { ConfirmDialog } from '@/components/shared/ConfirmDialog';
+import { Switch } from '@/components/ui/switch';
+import { SafetyPinSettings } from '@/components/profile/SafetyPinSettings';
 import { useAuth } from '@/contexts/AuthContext';
 import { usersApi } from '@/api/users';
+import { getSosSettings, saveSosSettings, SOS_COUNTDOWN_OPTIONS, SosSettings } from '@/services/sos';
 import { ApiError } from '@/models/types';
+import { formatTime, getTimeFormat, saveTimeFormat, TIME_FORMAT_OPTIONS, TimeFormat } from '@/lib/dates';
 import { cn } from '@/lib/utils';
 import { z } from 'zod';
 
@@ -31,6 +35,19 @@ export function ProfilePage() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [sosSettings, setSosSettings] = useState<SosSettings>(getSosSettings);
+  const [timeFormat, setTimeFormat] = useState<TimeFormat>(getTimeFormat);
+
+  const updateSosSettings = (changes: Partial<SosSettings>) => {
+    const next = { ...sosSettings, ...changes };
+    setSosSettings(next);
+    saveSosSettings(next);
+  };
+
+  const updateTimeFormat = (next: TimeFormat) => {
+    setTimeFormat(next);
+    saveTimeFormat(next);
+  };
 
   const handleChange = (field: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData((prev) => ({ ...prev, [field]: e.target.value }));
@@ -65,8 +82,8 @@ export function ProfilePage() {
     }
   };
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate('/login');
   };
 
@@ -74,7 +91,7 @@ export function ProfilePage() {
     setIsDeleting(true);
     try {
       await usersApi.deleteMe();
-      logout();
+      await logout();
       navigate('/login');
     } catch (err) {
       const apiError = err as ApiError;
@@ -199,6 +216,82 @@ export function ProfilePage() {
           )}
         </div>
 
+        {/* Safety PIN */}
+        <SafetyPinSettings />
+
+        {/* Emergency SOS */}
+        <div className="safe-card">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-xl bg-destructive/10 flex items-center justify-center">
+              <Siren className="h-5 w-5 text-destructive" />
+            </div>
+            <h3 className="font-semibold text-foreground">Emergency SOS</h3>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm text-muted-foreground mb-2">Countdown before sending</p>
+              <div className="flex gap-2">
+                {SOS_COUNTDOWN_OPTIONS.map((seconds) => (
+                  <button
+                    key={seconds}
+                    onClick={() => updateSosSettings({ countdownSeconds: seconds })}
+                    className={cn(
+                      'flex-1 py-2 rounded-xl border-2 text-sm font-medium transition-all',
+                      sosSettings.countdownSeconds === seconds
+                        ? 'border-primary bg-accent text-primary'
+                        : 'border-border bg-card text-foreground hover:border-primary/50'
+                    )}
+                  >
+                    {seconds === 0 ? 'None' : `${seconds}s`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium text-foreground">Silent mode</p>
+                <p className="text-sm text-muted-foreground">
+                  Send SOS without sound or confirmation. Holding the SOS button always sends silently.
+                </p>
+              </div>
+              <Switch
+                checked={sosSettings.alwaysSilent}
+                onCheckedChange={(checked) => updateSosSettings({ alwaysSilent: checked })}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Display */}
+        <div className="safe-card">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-xl bg-accent flex items-center justify-center">
+              <Clock className="h-5 w-5 text-primary" />
+            </div>
+            <h3 className="font-semibold text-foreground">Time Format</h3>
+          </div>
+
+          <div className="flex gap-2">
+            {TIME_FORMAT_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => updateTimeFormat(option.value)}
+                className={cn(
+                  'flex-1 py-2 rounded-xl border-2 text-sm font-medium transition-all',
+                  timeFormat === option.value
+                    ? 'border-primary bg-accent text-primary'
+                    : 'border-border bg-card text-foreground hover:border-primary/50'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-muted-foreground mt-2">Times show like {formatTime(new Date())}.</p>
+        </div>
+
         {/* Actions */}
         <div className="space-y-3">
           <button
@@ -1,16 +1,72 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { MapPin, AlertTriangle, CheckCircle, XCircle, Navigation2, Clock, Route } from 'lucide-react';
+import {
+  MapPin,
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+  Navigation2,
+  Clock,
+  Route,
+  CloudOff,
+  Gauge,
+  BellRing,
+  Timer,
+  Pause,
+} from 'lucide-react';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { PrimaryButton } from '@/components/shared/PrimaryButton';
 import { LoadingState } from '@/components/shared/LoadingState';
 import { ErrorBanner } from '@/components/shared/ErrorBanner';
 import { ConfirmDialog } from '@/components/shared/ConfirmDialog';
+import { PinDialog } from '@/components/shared/PinDialog';
+import { ArrivalPrompt } from '@/components/trips/ArrivalPrompt';
+import { SosButton } from '@/components/sos/SosButton';
+import { CheckInPrompt } from '@/components/trips/CheckInPrompt';
+import { NotifiedContacts } from '@/components/trips/NotifiedContacts';
+import { LiveTripMap } from '@/components/map/LiveTripMap';
+import { SavePlaceOption } from '@/components/trips/SavePlaceOption';
+import { TripLegsProgress } from '@/components/trips/TripLegsProgress';
+import { ExtendEtaSheet } from '@/components/trips/ExtendEtaSheet';
+import { MAX_PAUSE_MINUTES, PauseTripSheet } from '@/components/trips/PauseTripSheet';
+import { PausedTripCard } from '@/components/trips/PausedTripCard';
+import { TripEndedScreen } from '@/components/trips/TripEndedScreen';
 import { tripsApi } from '@/api/trips';
 import { alertsApi } from '@/api/alerts';
-import { TripResponse, LocationUpdateResponse, AlertResponse, ApiError } from '@/models/types';
+import { savedLocationsApi } from '@/api/savedLocations';
+import { trustedContactsApi } from '@/api/trustedContacts';
+import {
+  TripResponse,
+  LocationUpdateResponse,
+  AlertResponse,
+  TrustedContactResponse,
+  ApiError,
+  RealtimeEvent,
+} from '@/models/types';
+import { useLocationTracker } from '@/hooks/use-location-tracker';
+import { useArrivalDetection } from '@/hooks/use-arrival-detection';
+import { usePendingLocationUpdates } from '@/hooks/use-pending-location-updates';
+import { useBatteryStatus } from '@/hooks/use-battery-status';
+import { useRealtime } from '@/hooks/use-realtime';
+import { useCheckInTimer } from '@/hooks/use-check-in-timer';
+import { useTripTrail } from '@/hooks/use-trip-trail';
+import locationQueue from '@/services/locationQueue';
+import locationTracker from '@/services/location/tracker';
+import { createLocationProvider } from '@/services/location/createLocationProvider';
+import { toLocationUpdateRequest } from '@/services/location/types';
+import { CADENCE_POLICY_LABELS, decideCadence } from '@/services/location/cadence';
+import { getTripJournal, recordCadencePolicy, updateTripJournal } from '@/services/tripJournal';
+import { estimateMinutes, getCurrentLegIndex, getExpectedArrival, getTripLegs } from '@/services/tripLegs';
+import { checkPin, hasSafetyPin } from '@/services/safetyPin';
+import { sendSos } from '@/services/sos';
+import { formatTime } from '@/lib/dates';
 import { cn } from '@/lib/utils';
 
+const DEFAULT_ARRIVAL_RADIUS_METERS = 100;
+// How long a duress SOS may hold up the normal-looking end of the trip
+
+type EndTripAction = 'complete' | 'cancel';
+
 export function ActiveTripPage() {
   const navigate = useNavigate();
   const [trip, setTrip] = useState<TripResponse | null>(null);
@@ -21,9 +77,96 @@ export function ActiveTripPage() {
   const [showCompleteDialog, setShowCompleteDialog] = useState(false);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
   const [isActioning, setIsActioning] = useState(false);
+  const [destinationRadius, setDestinationRadius] = useState<number | null>(null);
+  const [pinAction, setPinAction] = useState<EndTripAction | null>(null);
+  const [duressEndedAs, setDuressEndedAs] = useState<EndTripAction | null>(null);
+  const [contacts, setContacts] = useState<TrustedContactResponse[]>([]);
+  const [savePlace, setSavePlace] = useState(false);
+  const [showExtendSheet, setShowExtendSheet] = useState(false);
+  const [isExtending, setIsExtending] = useState(false);
+  const [showPauseSheet, setShowPauseSheet] = useState(false);
+  const [isPausing, setIsPausing] = useState(false);
+  const [isResuming, setIsResuming] = useState(false);
 
   const locationIntervalRef = useRef<number | null>(null);
-  const simulatedPositionRef = useRef({ lat: 37.7749, lng: -122.4194 });
+
+  // Tracking carries on through a pause so the map and SOS keep a position
+  const isPaused = trip?.status === 'PAUSED';
+  const isOpen = trip?.status === 'ACTIVE' || isPaused;
+
+  const locationProvider = useMemo(
+    () =>
+      trip && isOpen
+        ? createLocationProvider({
+            destination: { latitude: trip.destinationLatitude, longitude: trip.destinationLongitude },
+            start:
+              trip.startLatitude != null && trip.startLongitude != null
+                ? { latitude: trip.startLatitude, longitude: trip.startLongitude }
+                : undefined,
+            waypoints: trip.waypoints?.map(({ latitude, longitude }) => ({ latitude, longitude })),
+            transportMode: trip.transportMode,
+          })
+        : null,
+    // Recreate the provider only when a different trip becomes active
+    [trip?.id, isOpen]
+  );
+  const tracker = useLocationTracker(locationProvider);
+  const pendingUpdates = usePendingLocationUpdates(trip?.id);
+
+  // Multi-stop trips arrive at each waypoint in turn; the geofence follows the current leg
+  const legs = useMemo(() => (trip ? getTripLegs(trip) : []), [trip]);
+  const currentLegIndex = getCurrentLegIndex(legs);
+  const currentLeg = legs[currentLegIndex];
+  const isFinalLeg = !currentLeg?.waypointId;
+
+  const geofence = useMemo(
+    () =>
+      currentLeg && destinationRadius
+        ? {
+            center: currentLeg.to,
+            radiusMeters: isFinalLeg ? destinationRadius : currentLeg.radiusMeters ?? DEFAULT_ARRIVAL_RADIUS_METERS,
+          }
+        : null,
+    [currentLeg, isFinalLeg, destinationRadius]
+  );
+  const arrival = useArrivalDetection(tracker.fix, geofence);
+  const trail = useTripTrail(trip?.id, tracker.fix);
+  const adHocDestination = useMemo(() => (trip ? getTripJournal(trip.id).adHocDestination : undefined), [trip?.id]);
+
+  const handleRealtimeEvent = (event: RealtimeEvent) => {
+    if (!trip || event.payload.tripId !== trip.id) return;
+
+    if (event.type === 'ALERT') {
+      const alert = event.payload;
+      setAlerts((prev) => {
+        const others = prev.filter((a) => a.id !== alert.id);
+        return alert.status === 'PENDING' ? [...others, alert] : others;
+      });
+    } else {
+      setLocationUpdate(event.payload);
+    }
+  };
+  const realtime = useRealtime(handleRealtimeEvent);
+  const isLive = realtime.status === 'open';
+  const isLiveRef = useRef(isLive);
+  isLiveRef.current = isLive;
+  const battery = useBatteryStatus();
+  // Check-in prompts would give away that a duress-ended trip is still running
+  const checkIn = useCheckInTimer(trip?.id, trip?.startedAt, isPaused || !!duressEndedAs);
+
+  const cadence = useMemo(
+    () =>
+      decideCadence({
+        transportMode: trip?.transportMode ?? 'WALKING',
+        speedMetersPerSecond: tracker.fix?.speed,
+        distanceRemainingMeters:
+          arrival.distanceMeters ??
+          (locationUpdate?.distanceRemainingKm != null ? locationUpdate.distanceRemainingKm * 1000 : null),
+        hasWarning: alerts.length > 0 || locationUpdate?.onTrack === false || !!locationUpdate?.warningMessage,
+        battery,
+      }),
+    [trip?.transportMode, tracker.fix?.speed, arrival.distanceMeters, locationUpdate, alerts.length, battery]
+  );
 
   const loadTrip = async () => {
     setIsLoading(true);
@@ -38,10 +181,25 @@ export function ActiveTripPage() {
       }
 
       setTrip(activeTrip);
-
-      // Load alerts
-      const tripAlerts = await alertsApi.listForTrip(activeTrip.id).catch(() => []);
+      setDuressEndedAs(getTripJournal(activeTrip.id).duressEndedAs ?? null);
+
+      // The trip doesn't carry the geofence radius, take it from the saved location
+      const destination = activeTrip.destinationId
+        ? await savedLocationsApi.get(activeTrip.destinationId).catch(() => null)
+        : null;
+      setDestinationRadius(
+        destination?.radiusMeters ??
+          getTripJournal(activeTrip.id).adHocDestination?.radiusMeters ??
+          DEFAULT_ARRIVAL_RADIUS_METERS
+      );
+
+      // Load alerts and the contacts watching this trip
+      const [tripAlerts, contactData] = await Promise.all([
+        alertsApi.listForTrip(activeTrip.id).catch(() => []),
+        trustedContactsApi.list().catch(() => [] as TrustedContactResponse[]),
+      ]);
       setAlerts(tripAlerts.filter((a) => a.status === 'PENDING'));
+      setContacts(contactData);
     } catch (err) {
       const apiError = err as ApiError;
       setError(apiError.message || 'Failed to load trip');
@@ -50,38 +208,36 @@ export function ActiveTripPage() {
     }
   };
 
+  const refreshAlerts = async () => {
+    if (!trip) return;
+    const tripAlerts = await alertsApi.listForTrip(trip.id).catch(() => []);
+    setAlerts(tripAlerts.filter((a) => a.status === 'PENDING'));
+  };
+
   const sendLocationUpdate = useCallback(async () => {
     if (!trip) return;
 
-    // Simulate GPS movement towards destination
-    const targetLat = trip.destinationLatitude;
-    const targetLng = trip.destinationLongitude;
-    const speed = 0.0001; // Movement per update
-
-    simulatedPositionRef.current = {
-      lat: simulatedPositionRef.current.lat + (targetLat - simulatedPositionRef.current.lat) * speed * 10,
-      lng: simulatedPositionRef.current.lng + (targetLng - simulatedPositionRef.current.lng) * speed * 10,
-    };
+    const fix = locationTracker.getLatestFix();
+    if (!fix) return;
 
     try {
-      const update = await tripsApi.updateLocation(trip.id, {
-        latitude: simulatedPositionRef.current.lat,
-        longitude: simulatedPositionRef.current.lng,
-        accuracy: 10 + Math.random() * 20,
-        timestamp: new Date().toISOString(),
-        speed: 1.2 + Math.random() * 0.5,
-      });
+      const update = await locationQueue.submit(trip.id, toLocationUpdateRequest(fix));
+      if (!update) return;
 
       setLocationUpdate(update);
 
-      // Check for new alerts
-      const tripAlerts = await alertsApi.listForTrip(trip.id).catch(() => []);
-      setAlerts(tripAlerts.filter((a) => a.status === 'PENDING'));
+      // Alerts are pushed while the realtime channel is up; poll only as a fallback
+      if (!isLiveRef.current) await refreshAlerts();
     } catch (err) {
       console.error('Location update failed:', err);
     }
   }, [trip]);
 
+  // Catch up on anything raised while the channel was down
+  useEffect(() => {
+    if (isLive && trip) refreshAlerts();
+  }, [isLive, trip?.id]);
+
   useEffect(() => {
     loadTrip();
     return () => {
@@ -91,21 +247,54 @@ export function ActiveTripPage() {
 
   useEffect(() => {
     if (trip && trip.status === 'ACTIVE') {
-      locationIntervalRef.current = window.setInterval(sendLocationUpdate, 10000);
-      sendLocationUpdate();
+      locationIntervalRef.current = window.setInterval(sendLocationUpdate, cadence.intervalMs);
     }
 
     return () => {
       if (locationIntervalRef.current) clearInterval(locationIntervalRef.current);
     };
-  }, [trip, sendLocationUpdate]);
+  }, [trip, sendLocationUpdate, cadence.intervalMs]);
+
+  useEffect(() => {
+    if (trip) recordCadencePolicy(trip.id, cadence.policy, cadence.intervalMs);
+  }, [trip?.id, cadence.policy, cadence.intervalMs]);
+
+  // Report the first fix right away instead of waiting for the next tick
+  const hasFix = !!tracker.fix;
+  useEffect(() => {
+    if (hasFix) sendLocationUpdate();
+  }, [hasFix, sendLocationUpdate]);
+
+  // Waypoints are marked reached right away; the backend is told in the background
+  const handleWaypointArrival = (waypointId: string) => {
+    if (!trip) return;
+
+    const arrivedAt = new Date().toISOString();
+    setTrip((prev) => ({
+      ...prev,
+      waypoints: prev.waypoints?.map((waypoint) =>
+        waypoint.id === waypointId ? { ...waypoint, arrivedAt } : waypoint
+      ),
+    }));
+    tripsApi
+      .arriveAtWaypoint(trip.id, waypointId)
+      .catch((err) => console.error('Failed to report waypoint arrival:', err));
+  };
+
+  useEffect(() => {
+    if (arrival.state === 'arrived' && currentLeg?.waypointId) handleWaypointArrival(currentLeg.waypointId);
+  }, [arrival.state, currentLeg?.waypointId]);
 
   const handleComplete = async () => {
     if (!trip) return;
     setIsActioning(true);
 
     try {
+      // Deliver any buffered trail before the trip is closed
+      await locationQueue.flush(trip.id);
       await tripsApi.complete(trip.id);
+      await locationQueue.clear(trip.id);
+      if (savePlace && adHocDestination) await saveAdHocDestination();
       navigate('/trips');
     } catch (err) {
       const apiError = err as ApiError;
@@ -116,12 +305,25 @@ export function ActiveTripPage() {
     }
   };
 
+  // The trip is already complete, so failing to save the place shouldn't block leaving
+  const saveAdHocDestination = () =>
+    savedLocationsApi
+      .create({
+        name: adHocDestination.name,
+        latitude: adHocDestination.latitude,
+        longitude: adHocDestination.longitude,
+        radiusMeters: adHocDestination.radiusMeters ?? DEFAULT_ARRIVAL_RADIUS_METERS,
+        address: adHocDestination.address ?? '',
+      })
+      .catch((err) => console.error('Failed to save destination:', err));
+
   const handleCancel = async () => {
     if (!trip) return;
     setIsActioning(true);
 
     try {
       await tripsApi.cancel(trip.id);
+      await locationQueue.clear(trip.id);
       navigate('/trips');
     } catch (err) {
       const apiError = err as ApiError;
@@ -132,6 +334,106 @@ export function ActiveTripPage() {
     }
   };
 
+  const endTrip = (action: EndTripAction) => (action === 'complete' ? handleComplete() : handleCancel());
+
+  // With a safety PIN configured, ending a trip has to be confirmed with it
+  const requestEndTrip = (action: EndTripAction) => {
+    if (!hasSafetyPin()) {
+      endTrip(action);
+      return;
+    }
+    setShowCompleteDialog(false);
+    setShowCancelDialog(false);
+    setPinAction(action);
+  };
+
+  const handlePinSubmit = async (pin: string) => {
+    if (!trip || !pinAction) return null;
+
+    const result = await checkPin(pin);
+    if (result === 'invalid') return 'Incorrect PIN';
+
+    const action = pinAction;
+    setPinAction(null);
+
+    if (result === 'duress') {
+      // Looks like the trip ended, but it stays open and tracked while contacts get a silent SOS
+      updateTripJournal(trip.id, (entry) => ({ ...entry, duressEndedAs: action }));
+      setDuressEndedAs(action);
+      sendSos({ tripId: trip.id, silent: true, message: 'Duress PIN entered to end trip' }).catch((err) =>
+        console.error('Duress SOS failed:', err)
+      );
+      // Location is only reported while the trip is active
+      if (isPaused) handleResume();
+      return null;
+    }
+
+    await endTrip(action);
+    return null;
+  };
+
+  const handleExtend = async (minutes: number, reason?: string) => {
+    if (!trip) return;
+    setIsExtending(true);
+
+    try {
+      const updated = await tripsApi.extend(trip.id, { minutes, reason });
+      setTrip((prev) => ({ ...prev, expectedArrivalAt: updated.expectedArrivalAt, extensions: updated.extensions }));
+      setShowExtendSheet(false);
+      // The backend settles DELAYED alerts the new deadline covers
+      await refreshAlerts();
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to extend trip');
+      setShowExtendSheet(false);
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  const handlePause = async (minutes: number, reason?: string) => {
+    if (!trip) return;
+    setIsPausing(true);
+
+    try {
+      // Deliver the trail up to the pause before updates stop
+      await locationQueue.flush(trip.id);
+      const updated = await tripsApi.pause(trip.id, { minutes, reason });
+      setTrip((prev) => ({
+        ...prev,
+        status: updated.status,
+        pausedAt: updated.pausedAt,
+        pauseEndsAt: updated.pauseEndsAt,
+      }));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to pause trip');
+    } finally {
+      setIsPausing(false);
+      setShowPauseSheet(false);
+    }
+  };
+
+  const handleResume = async (expired = false) => {
+    if (!trip || isResuming) return false;
+    setIsResuming(true);
+
+    try {
+      const updated = await tripsApi.resume(trip.id, { expired });
+      setTrip((prev) => ({ ...prev, status: updated.status, pausedAt: undefined, pauseEndsAt: undefined }));
+      // Coming back from a break counts as checking in
+      checkIn.checkIn();
+      sendLocationUpdate();
+      return true;
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to resume trip');
+      return false;
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
   const handleRespondToAlert = async (alertId: string, isOk: boolean) => {
     try {
       await alertsApi.respond(alertId, { isOk, message: isOk ? "I'm okay!" : 'Need help!' });
@@ -152,11 +454,14 @@ export function ActiveTripPage() {
 
   if (!trip) return null;
 
+  if (duressEndedAs) return <TripEndedScreen action={duressEndedAs} destinationName={trip.destinationName} />;
+
   const isOnTrack = locationUpdate?.onTrack ?? true;
+  const expectedArrival = getExpectedArrival(trip);
 
   // Safe derived values (prevents crashes)
   const transportModeLabel = (trip.transportMode ?? 'unknown').toLowerCase();
-  const estimatedDistanceLabel = (trip.estimatedDistanceKm ?? 0).toFixed(1);
+  const estimatedDistanceLabel = trip.estimatedDistanceKm.toFixed(1);
   const remainingDistanceLabel =
     locationUpdate?.distanceRemainingKm != null
       ? locationUpdate.distanceRemainingKm.toFixed(1)
@@ -168,17 +473,23 @@ export function ActiveTripPage() {
       <div
         className={cn(
           'pt-6 pb-8 px-4 text-primary-foreground safe-area-top',
-          isOnTrack ? 'gradient-safe' : 'gradient-warning'
+          isPaused ? 'bg-muted-foreground' : isOnTrack ? 'gradient-safe' : 'gradient-warning'
         )}
       >
         <div className="flex items-center gap-2 mb-4">
           <div
             className={cn(
               'w-3 h-3 rounded-full',
-              isOnTrack ? 'bg-white pulse-safe' : 'bg-white animate-pulse'
+              isPaused ? 'bg-white/60' : isOnTrack ? 'bg-white pulse-safe' : 'bg-white animate-pulse'
             )}
           />
-          <span className="font-semibold text-sm uppercase tracking-wide">Trip Active</span>
+          <span className="font-semibold text-sm uppercase tracking-wide">{isPaused ? 'Trip Paused' : 'Trip Active'}</span>
+          {pendingUpdates > 0 && (
+            <span className="ml-auto flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full bg-white/20">
+              <CloudOff className="h-3.5 w-3.5" />
+              {pendingUpdates} update{pendingUpdates !== 1 ? 's' : ''} pending
+            </span>
+          )}
         </div>
 
         <h1 className="text-2xl font-bold mb-2">{trip.destinationName ?? 'Destination'}</h1>
@@ -206,6 +517,30 @@ export function ActiveTripPage() {
         <div className="p-4 space-y-4">
           {error && <ErrorBanner message={error} onDismiss={() => setError(null)} />}
 
+          {/* Location Tracking Status */}
+          {tracker.providerKind && tracker.providerKind !== 'gps' && (
+            <ErrorBanner
+              message={`Using ${tracker.providerKind} location, not GPS. Your contacts won't see where you really are.`}
+              variant="warning"
+            />
+          )}
+          {(tracker.status === 'denied' || tracker.status === 'unavailable') && tracker.error && (
+            <ErrorBanner message={tracker.error.message} variant="warning" />
+          )}
+          {tracker.status === 'locating' && (
+            <ErrorBanner message="Waiting for GPS signal..." variant="info" />
+          )}
+
+          {isPaused && trip.pausedAt && trip.pauseEndsAt && (
+            <PausedTripCard
+              pausedAt={trip.pausedAt}
+              pauseEndsAt={trip.pauseEndsAt}
+              onResume={() => handleResume()}
+              onExpire={() => handleResume(true)}
+              isResuming={isResuming}
+            />
+          )}
+
           {/* Warning Message */}
           {locationUpdate?.warningMessage && (
             <div className="flex items-start gap-3 p-4 rounded-xl bg-warning/10 border-2 border-warning/30">
@@ -217,6 +552,41 @@ export function ActiveTripPage() {
             </div>
           )}
 
+          {/* Live Map */}
+          <LiveTripMap
+            start={
+              trip.startLatitude != null && trip.startLongitude != null
+                ? { latitude: trip.startLatitude, longitude: trip.startLongitude }
+                : null
+            }
+            destination={{ latitude: trip.destinationLatitude, longitude: trip.destinationLongitude }}
+            radiusMeters={destinationRadius ?? DEFAULT_ARRIVAL_RADIUS_METERS}
+            fix={tracker.fix}
+            trail={trail}
+            isOnTrack={isOnTrack}
+            waypoints={legs
+              .filter((leg) => leg.waypointId)
+              .map((leg) => ({
+                ...leg.to,
+                radiusMeters: leg.radiusMeters ?? DEFAULT_ARRIVAL_RADIUS_METERS,
+                reached: !!leg.arrivedAt,
+              }))}
+          />
+
+          {/* Stops */}
+          {legs.length > 1 && (
+            <TripLegsProgress
+              legs={legs}
+              currentIndex={currentLegIndex}
+              distanceRemainingMeters={arrival.distanceMeters}
+              etaMinutes={
+                arrival.distanceMeters != null
+                  ? estimateMinutes(arrival.distanceMeters, trip.transportMode, tracker.fix?.speed)
+                  : null
+              }
+            />
+          )}
+
           {/* Pending Alerts */}
           {alerts.map((alert) => (
             <div key={alert.id} className="p-4 rounded-xl bg-destructive/10 border-2 border-destructive/30">
@@ -247,6 +617,14 @@ export function ActiveTripPage() {
                   Need Help
                 </PrimaryButton>
               </div>
+              {alert.type === 'DELAYED' && (
+                <button
+                  onClick={() => setShowExtendSheet(true)}
+                  className="w-full mt-3 text-sm font-medium text-primary hover:underline"
+                >
+                  I need more time
+                </button>
+              )}
             </div>
           ))}
 
@@ -273,6 +651,75 @@ export function ActiveTripPage() {
                   <p className="font-medium text-foreground capitalize">{transportModeLabel}</p>
                 </div>
               </div>
+
+              {expectedArrival && (
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-accent flex items-center justify-center">
+                    <Timer className="h-5 w-5 text-primary" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm text-muted-foreground">Expected Arrival</p>
+                    <p className="font-medium text-foreground">
+                      {formatTime(expectedArrival)}
+                      {trip.extensions?.length > 0 && (
+                        <span className="text-sm text-muted-foreground font-normal">
+                          {' '}
+                          • extended {trip.extensions.length}×
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <PrimaryButton variant="outline" size="sm" onClick={() => setShowExtendSheet(true)}>
+                    More Time
+                  </PrimaryButton>
+                </div>
+              )}
+
+              <NotifiedContacts contactIds={trip.contactIds} contacts={contacts} />
+
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-accent flex items-center justify-center">
+                  <Gauge className="h-5 w-5 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Location Updates</p>
+                  <p className="font-medium text-foreground">
+                    {CADENCE_POLICY_LABELS[cadence.policy]} • every {Math.round(cadence.intervalMs / 1000)}s
+                  </p>
+                </div>
+              </div>
+
+              {!isPaused && (
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-accent flex items-center justify-center">
+                    <Pause className="h-5 w-5 text-primary" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm text-muted-foreground">Taking a Break?</p>
+                    <p className="font-medium text-foreground">Pause alerts for up to {MAX_PAUSE_MINUTES} min</p>
+                  </div>
+                  <PrimaryButton variant="outline" size="sm" onClick={() => setShowPauseSheet(true)}>
+                    Pause
+                  </PrimaryButton>
+                </div>
+              )}
+
+              {checkIn.phase !== 'off' && (
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-accent flex items-center justify-center">
+                    <BellRing className="h-5 w-5 text-primary" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm text-muted-foreground">Next Check-in</p>
+                    <p className="font-medium text-foreground">
+                      in {Math.ceil(checkIn.msUntilDue / 60000)} min • every {checkIn.intervalMinutes} min
+                    </p>
+                  </div>
+                  <PrimaryButton variant="outline" size="sm" onClick={checkIn.checkIn}>
+                    Check In
+                  </PrimaryButton>
+                </div>
+              )}
             </div>
           </div>
 
@@ -300,6 +747,7 @@ export function ActiveTripPage() {
         {/* Action Buttons */}
         <div className="fixed bottom-20 left-0 right-0 p-4 bg-background/80 backdrop-blur-lg border-t border-border safe-area-bottom">
           <div className="flex gap-3">
+            <SosButton tripId={trip.id} variant="inline" />
             <PrimaryButton variant="outline" className="flex-1" onClick={() => setShowCancelDialog(true)}>
               <XCircle className="h-4 w-4 mr-2" />
               Cancel
@@ -319,9 +767,35 @@ export function ActiveTripPage() {
         title="Complete Trip"
         description="Are you sure you've safely arrived at your destination?"
         confirmText="Yes, I've Arrived"
-        onConfirm={handleComplete}
+        onConfirm={() => requestEndTrip('complete')}
         isLoading={isActioning}
-      />
+      >
+        {adHocDestination && (
+          <SavePlaceOption placeName={adHocDestination.name} checked={savePlace} onCheckedChange={setSavePlace} />
+        )}
+      </ConfirmDialog>
+
+      {(checkIn.phase === 'due' || checkIn.phase === 'missed') && (
+        <CheckInPrompt
+          missed={checkIn.phase === 'missed'}
+          alertStatus={checkIn.alertStatus}
+          msUntilMissed={checkIn.msUntilMissed}
+          onCheckIn={checkIn.checkIn}
+          onRetryAlert={checkIn.retryAlert}
+        />
+      )}
+
+      <ArrivalPrompt
+        open={isFinalLeg && arrival.state === 'arrived' && !showCompleteDialog && !showCancelDialog && !pinAction}
+        destinationName={trip.destinationName ?? 'your destination'}
+        onComplete={() => requestEndTrip('complete')}
+        onDismiss={arrival.dismiss}
+        isLoading={isActioning}
+      >
+        {adHocDestination && (
+          <SavePlaceOption placeName={adHocDestination.name} checked={savePlace} onCheckedChange={setSavePlace} />
+        )}
+      </ArrivalPrompt>
 
       <ConfirmDialog
         open={showCancelDialog}
@@ -329,10 +803,34 @@ export function ActiveTripPage() {
         title="Cancel Trip"
         description="Are you sure you want to cancel this trip? Your trusted contacts may be notified."
         confirmText="Cancel Trip"
-        onConfirm={handleCancel}
+        onConfirm={() => requestEndTrip('cancel')}
         variant="destructive"
         isLoading={isActioning}
       />
+
+      <ExtendEtaSheet
+        open={showExtendSheet}
+        onOpenChange={setShowExtendSheet}
+        expectedArrival={expectedArrival}
+        onExtend={handleExtend}
+        isLoading={isExtending}
+      />
+
+      <PauseTripSheet
+        open={showPauseSheet}
+        onOpenChange={setShowPauseSheet}
+        onPause={handlePause}
+        isLoading={isPausing}
+      />
+
+      <PinDialog
+        open={pinAction !== null}
+        onOpenChange={(open) => !open && setPinAction(null)}
+        title={pinAction === 'cancel' ? 'Cancel Trip' : 'Complete Trip'}
+        description="Enter your safety PIN to end monitoring."
+        confirmText={pinAction === 'cancel' ? 'Cancel Trip' : 'Complete Trip'}
+        onSubmit={handlePinSubmit}
+      />
     </div>
   );
 }
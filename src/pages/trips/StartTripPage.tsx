@@ -1,30 +1,67 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { MapPin, Navigation, Car, Bike, Footprints, ChevronRight } from 'lucide-react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { MapPin, Navigation, ChevronRight, Check, Search, CalendarClock, Bookmark } from 'lucide-react';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { PrimaryButton } from '@/components/shared/PrimaryButton';
 import { LoadingState } from '@/components/shared/LoadingState';
 import { ErrorBanner } from '@/components/shared/ErrorBanner';
-import { EmptyState } from '@/components/shared/EmptyState';
+import { toast } from '@/components/ui/sonner';
+import { AdHocDestinationPicker } from '@/components/trips/AdHocDestinationPicker';
+import { SaveTemplateDialog } from '@/components/trips/SaveTemplateDialog';
+import { WaypointDraft, WaypointsEditor } from '@/components/trips/WaypointsEditor';
+import { DEFAULT_CONTACT_COUNT, checkInOptions, transportModes } from '@/components/trips/tripOptions';
 import { savedLocationsApi } from '@/api/savedLocations';
-import { tripsApi } from '@/api/trips';
-import { SavedLocationResponse, TransportMode, ApiError } from '@/models/types';
+import { trustedContactsApi } from '@/api/trustedContacts';
+import { tripSchedulesApi } from '@/api/tripSchedules';
+import { tripTemplatesApi } from '@/api/tripTemplates';
+import {
+  AdHocDestinationRequest,
+  SavedLocationResponse,
+  TrustedContactResponse,
+  TripScheduleResponse,
+  TransportMode,
+  ApiError,
+} from '@/models/types';
 import { cn } from '@/lib/utils';
-//import Geolocation from '@react-native-community/geolocation';
+import { LocationError } from '@/services/location/types';
+import { TripPlan, startTrip } from '@/services/startTrip';
+import { templateFromPlan } from '@/services/tripTemplates';
+import { describeSchedule } from '@/services/tripSchedules';
 
-const transportModes: { mode: TransportMode; icon: typeof Car; label: string }[] = [
-  { mode: 'WALKING', icon: Footprints, label: 'Walking' },
-  { mode: 'BICYCLING', icon: Bike, label: 'Bicycling' },
-  { mode: 'DRIVING', icon: Car, label: 'Driving' },
-];
+/** Choices kept in router state while the user adds a new location */
+interface TripDraft {
+  transportMode: TransportMode;
+  checkInMinutes: number | null;
+  contactIds: string[];
+  waypoints: WaypointDraft[];
+  scheduleId?: string;
+}
+
+interface StartTripState {
+  draft?: TripDraft;
+  selectedLocationId?: string;
+}
 
 export function StartTripPage() {
   const navigate = useNavigate();
+  const restored = (useLocation().state as StartTripState | null) ?? {};
+  const [searchParams] = useSearchParams();
+  // Reminders link here with ?schedule=<id>; a draft keeps it while a location is added
+  const scheduleId = restored.draft?.scheduleId ?? searchParams.get('schedule') ?? undefined;
+  const [schedule, setSchedule] = useState<TripScheduleResponse | null>(null);
   const [locations, setLocations] = useState<SavedLocationResponse[]>([]);
-  const [selectedLocation, setSelectedLocation] = useState<string | null>(null);
-  const [selectedMode, setSelectedMode] = useState<TransportMode>('WALKING');
+  const [selectedLocation, setSelectedLocation] = useState<string | null>(restored.selectedLocationId ?? null);
+  const [adHocDestination, setAdHocDestination] = useState<AdHocDestinationRequest | null>(null);
+  const [isAdHoc, setIsAdHoc] = useState(false);
+  const [waypoints, setWaypoints] = useState<WaypointDraft[]>(restored.draft?.waypoints ?? []);
+  const [selectedMode, setSelectedMode] = useState<TransportMode>(restored.draft?.transportMode ?? 'WALKING');
+  const [checkInMinutes, setCheckInMinutes] = useState<number | null>(restored.draft?.checkInMinutes ?? null);
+  const [contacts, setContacts] = useState<TrustedContactResponse[]>([]);
+  const [selectedContacts, setSelectedContacts] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isStarting, setIsStarting] = useState(false);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -33,8 +70,28 @@ export function StartTripPage() {
 
   const loadLocations = async () => {
     try {
-      const data = await savedLocationsApi.list();
+      const [data, contactData, scheduleData] = await Promise.all([
+        savedLocationsApi.list(),
+        trustedContactsApi.list().catch(() => [] as TrustedContactResponse[]),
+        scheduleId ? tripSchedulesApi.get(scheduleId).catch(() => null) : null,
+      ]);
       setLocations(data);
+      setSchedule(scheduleData);
+
+      // A restored draft already holds the user's edits to the scheduled choices
+      if (scheduleData && !restored.draft) {
+        setSelectedMode(scheduleData.transportMode);
+        setCheckInMinutes(scheduleData.checkInIntervalMinutes ?? null);
+        setSelectedLocation(restored.selectedLocationId ?? scheduleData.destinationId);
+      }
+
+      const byPriority = [...contactData].sort((a, b) => a.priority - b.priority);
+      setContacts(byPriority);
+      setSelectedContacts(
+        restored.draft?.contactIds ??
+          scheduleData?.contactIds ??
+          byPriority.slice(0, DEFAULT_CONTACT_COUNT).map((contact) => contact.id)
+      );
     } catch (err) {
       const apiError = err as ApiError;
       setError(apiError.message || 'Failed to load locations');
@@ -43,122 +100,90 @@ export function StartTripPage() {
     }
   };
 
-  const handleStartTrip = async () => {
-    if (!selectedLocation) return;
+  const hasAdHocPin = !!adHocDestination && !!(adHocDestination.latitude || adHocDestination.longitude);
+  const canStart = isAdHoc ? hasAdHocPin : !!selectedLocation;
 
-    setIsStarting(true);
-    setError(null);
-
-    try {
-      // Check if geolocation is supported
-      if (!navigator.geolocation) {
-        throw new Error('Geolocation is not supported by your browser');
-      }
+  const buildPlan = (): TripPlan => {
+    const adHoc = isAdHoc
+      ? { ...adHocDestination, name: adHocDestination.name.trim() || 'Dropped pin' }
+      : null;
+    const destination = adHoc ?? locations.find((location) => location.id === selectedLocation);
 
-      // Get real GPS coordinates from browser
-      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-        navigator.geolocation.getCurrentPosition(resolve, reject, {
-          enableHighAccuracy: true,
-          timeout: 15000,
-          maximumAge: 0
-        });
-      });
-
-      const currentLat = position.coords.latitude;
-      const currentLng = position.coords.longitude;
-
-      await tripsApi.start({
-        destinationId: selectedLocation,
-        currentLatitude: currentLat,
-        currentLongitude: currentLng,
+    return {
+      request: {
+        ...(adHoc ? { destination: adHoc } : { destinationId: selectedLocation }),
+        waypoints: waypoints.length > 0 ? waypoints.map((stop) => stop.request) : undefined,
         transportMode: selectedMode,
-      });
-
-      navigate('/trips/active');
-    } catch (err) {
-      if (err instanceof GeolocationPositionError) {
-        switch (err.code) {
-          case err.PERMISSION_DENIED:
-            setError('Location permission denied. Please enable location access.');
-            break;
-          case err.POSITION_UNAVAILABLE:
-            setError('Location unavailable. Please check your device settings.');
-            break;
-          case err.TIMEOUT:
-            setError('Location request timed out. Please try again.');
-            break;
-        }
-      } else {
-        const apiError = err as ApiError;
-        setError(apiError.message || 'Failed to start trip');
-      }
-    } finally {
-      setIsStarting(false);
-    }
+        contactIds: contacts.length > 0 ? selectedContacts : undefined,
+        scheduleId,
+      },
+      destination: { latitude: destination.latitude, longitude: destination.longitude },
+      waypoints: waypoints.map(({ latitude, longitude }) => ({ latitude, longitude })),
+      checkInIntervalMinutes: checkInMinutes,
+    };
   };
 
-/*
   const handleStartTrip = async () => {
-    if (!selectedLocation) return;
+    if (!canStart) return;
 
     setIsStarting(true);
     setError(null);
 
     try {
-      // Get real GPS coordinates
-      const position = await new Promise((resolve, reject) => {
-        Geolocation.getCurrentPosition(resolve, reject, {
-          enableHighAccuracy: true,
-          timeout: 15000,
-        });
-      });
-
-      const currentLat = position.coords.latitude;
-      const currentLng = position.coords.longitude;
-
-      await tripsApi.start({
-        destinationId: selectedLocation,
-        currentLatitude: currentLat,
-        currentLongitude: currentLng,
-        transportMode: selectedMode,
-      });
-
+      await startTrip(buildPlan());
       navigate('/trips/active');
     } catch (err) {
-      const apiError = err as ApiError;
-      setError(apiError.message || 'Failed to get location or start trip');
+      const error = err as LocationError | ApiError;
+      setError(error.message || 'Failed to start trip');
     } finally {
       setIsStarting(false);
     }
   };
-  *********************************
-  const handleStartTrip = async () => {
-    if (!selectedLocation) return;
 
-    setIsStarting(true);
+  const templateName = () =>
+    isAdHoc
+      ? adHocDestination.name.trim() || 'Dropped pin'
+      : locations.find((location) => location.id === selectedLocation)?.name ?? 'My trip';
+
+  const handleSaveTemplate = async (name: string) => {
+    setIsSavingTemplate(true);
     setError(null);
 
     try {
-      // Mock current location (simulated GPS)
-      const currentLat = 37.7749 + (Math.random() - 0.5) * 0.01;
-      const currentLng = -122.4194 + (Math.random() - 0.5) * 0.01;
-
-      await tripsApi.start({
-        destinationId: selectedLocation,
-        currentLatitude: currentLat,
-        currentLongitude: currentLng,
-        transportMode: selectedMode,
-      });
-
-      navigate('/trips/active');
+      await tripTemplatesApi.create(templateFromPlan(name, buildPlan()));
+      toast.success('Template saved', { description: `Start "${name}" from your Trips page.` });
+      setShowTemplateDialog(false);
     } catch (err) {
       const apiError = err as ApiError;
-      setError(apiError.message || 'Failed to start trip');
+      setError(apiError.message || 'Failed to save template');
     } finally {
-      setIsStarting(false);
+      setIsSavingTemplate(false);
     }
   };
-*/
+
+  // Adding a location leaves this page, so the choices made so far travel along
+  const handleAddLocation = () => {
+    const draft: TripDraft = {
+      transportMode: selectedMode,
+      checkInMinutes,
+      contactIds: selectedContacts,
+      waypoints,
+      scheduleId,
+    };
+    navigate('/locations/new', { state: { returnTo: '/trips/start', returnState: { draft } } });
+  };
+
+  const selectLocation = (locationId: string) => {
+    setSelectedLocation(locationId);
+    setIsAdHoc(false);
+  };
+
+  const toggleContact = (contactId: string) => {
+    setSelectedContacts((prev) =>
+      prev.includes(contactId) ? prev.filter((id) => id !== contactId) : [...prev, contactId]
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -172,11 +197,20 @@ export function StartTripPage() {
     <div className="min-h-screen bg-background">
       <PageHeader title="Start Trip" showBack backPath="/trips" />
 
-      <div className="p-4 space-y-6">
+      <div className="p-4 pb-24 space-y-6">
         {error && (
           <ErrorBanner message={error} onDismiss={() => setError(null)} />
         )}
 
+        {schedule && (
+          <div className="flex items-center gap-3 p-3 rounded-xl bg-accent">
+            <CalendarClock className="h-5 w-5 text-primary flex-shrink-0" />
+            <p className="text-sm text-foreground">
+              <span className="font-medium">{schedule.name}</span> • {describeSchedule(schedule)}
+            </p>
+          </div>
+        )}
+
         {/* Transport Mode Selection */}
         <div>
           <h2 className="text-sm font-semibold text-muted-foreground mb-3 uppercase tracking-wide">
@@ -209,93 +243,219 @@ export function StartTripPage() {
           </div>
         </div>
 
-        {/* Destination Selection */}
+        {/* Check-in Timer */}
+        <div>
+          <h2 className="text-sm font-semibold text-muted-foreground mb-1 uppercase tracking-wide">
+            Check-in Timer
+          </h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            We'll ask if you're OK at this interval and alert your contacts if you don't answer.
+          </p>
+          <div className="flex gap-2">
+            {checkInOptions.map(({ minutes, label }) => (
+              <button
+                key={label}
+                onClick={() => setCheckInMinutes(minutes)}
+                className={cn(
+                  'flex-1 py-2 rounded-xl border-2 text-sm font-medium transition-all',
+                  checkInMinutes === minutes
+                    ? 'border-primary bg-accent text-primary'
+                    : 'border-border bg-card text-foreground hover:border-primary/50'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Contacts to Notify */}
         <div>
           <div className="flex items-center justify-between mb-3">
             <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
-              Select Destination
+              Notify Contacts
             </h2>
-            <button
-              onClick={() => navigate('/locations/new')}
-              className="text-sm font-medium text-primary hover:underline"
-            >
-              + Add New
-            </button>
+            {contacts.length > 0 && (
+              <span className="text-sm text-muted-foreground">
+                {selectedContacts.length} of {contacts.length}
+              </span>
+            )}
           </div>
 
-          {locations.length === 0 ? (
-            <EmptyState
-              icon={MapPin}
-              title="No saved locations"
-              description="Add a location to start tracking your trips"
-              actionLabel="Add Location"
-              onAction={() => navigate('/locations/new')}
-            />
+          {contacts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No trusted contacts yet.{' '}
+              <button
+                onClick={() => navigate('/contacts/new')}
+                className="font-medium text-primary hover:underline"
+              >
+                Add one
+              </button>
+            </p>
           ) : (
             <div className="space-y-2">
-              {locations.map((location) => (
-                <button
-                  key={location.id}
-                  onClick={() => setSelectedLocation(location.id)}
-                  className={cn(
-                    'w-full p-4 rounded-xl border-2 transition-all flex items-center gap-4 text-left',
-                    selectedLocation === location.id
-                      ? 'border-primary bg-accent'
-                      : 'border-border bg-card hover:border-primary/50'
-                  )}
-                >
-                  <div className={cn(
-                    'w-12 h-12 rounded-xl flex items-center justify-center flex-shrink-0',
-                    selectedLocation === location.id
-                      ? 'gradient-primary'
-                      : 'bg-muted'
-                  )}>
-                    <MapPin className={cn(
-                      'h-6 w-6',
-                      selectedLocation === location.id
-                        ? 'text-primary-foreground'
-                        : 'text-muted-foreground'
-                    )} />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <h3 className="font-semibold text-foreground truncate">
-                      {location.name}
-                    </h3>
-                    {location.address && (
-                      <p className="text-sm text-muted-foreground truncate">
-                        {location.address}
-                      </p>
+              {contacts.map((contact) => {
+                const isSelected = selectedContacts.includes(contact.id);
+                return (
+                  <button
+                    key={contact.id}
+                    onClick={() => toggleContact(contact.id)}
+                    className={cn(
+                      'w-full p-3 rounded-xl border-2 transition-all flex items-center gap-3 text-left',
+                      isSelected ? 'border-primary bg-accent' : 'border-border bg-card hover:border-primary/50'
                     )}
-                  </div>
-                  <ChevronRight className={cn(
-                    'h-5 w-5 flex-shrink-0',
-                    selectedLocation === location.id
-                      ? 'text-primary'
-                      : 'text-muted-foreground'
-                  )} />
-                </button>
-              ))}
+                  >
+                    <div
+                      className={cn(
+                        'w-10 h-10 rounded-full flex items-center justify-center font-bold flex-shrink-0',
+                        isSelected ? 'gradient-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+                      )}
+                    >
+                      {isSelected ? <Check className="h-5 w-5" /> : contact.name.charAt(0).toUpperCase()}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-foreground truncate">{contact.name}</h3>
+                      {contact.relationship && (
+                        <p className="text-sm text-muted-foreground truncate">{contact.relationship}</p>
+                      )}
+                    </div>
+                    <span className="text-xs font-medium px-2 py-1 rounded-full bg-accent text-accent-foreground">
+                      #{contact.priority}
+                    </span>
+                  </button>
+                );
+              })}
+              {selectedContacts.length === 0 && (
+                <p className="text-sm text-warning font-medium">No one will be notified about this trip.</p>
+              )}
             </div>
           )}
         </div>
 
-        {/* Start Button */}
-        {locations.length > 0 && (
-          <div className="fixed bottom-20 left-4 right-4 safe-area-bottom">
-            <PrimaryButton
-              fullWidth
-              size="lg"
-              onClick={handleStartTrip}
-              disabled={!selectedLocation}
-              isLoading={isStarting}
-              variant="safe"
+        {/* Destination Selection */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+              Select Destination
+            </h2>
+            <button onClick={handleAddLocation} className="text-sm font-medium text-primary hover:underline">
+              + Add New
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            {locations.map((location) => (
+              <button
+                key={location.id}
+                onClick={() => selectLocation(location.id)}
+                className={cn(
+                  'w-full p-4 rounded-xl border-2 transition-all flex items-center gap-4 text-left',
+                  !isAdHoc && selectedLocation === location.id
+                    ? 'border-primary bg-accent'
+                    : 'border-border bg-card hover:border-primary/50'
+                )}
+              >
+                <div className={cn(
+                  'w-12 h-12 rounded-xl flex items-center justify-center flex-shrink-0',
+                  !isAdHoc && selectedLocation === location.id
+                    ? 'gradient-primary'
+                    : 'bg-muted'
+                )}>
+                  <MapPin className={cn(
+                    'h-6 w-6',
+                    !isAdHoc && selectedLocation === location.id
+                      ? 'text-primary-foreground'
+                      : 'text-muted-foreground'
+                  )} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-semibold text-foreground truncate">
+                    {location.name}
+                  </h3>
+                  {location.address && (
+                    <p className="text-sm text-muted-foreground truncate">
+                      {location.address}
+                    </p>
+                  )}
+                </div>
+                <ChevronRight className={cn(
+                  'h-5 w-5 flex-shrink-0',
+                  !isAdHoc && selectedLocation === location.id
+                    ? 'text-primary'
+                    : 'text-muted-foreground'
+                )} />
+              </button>
+            ))}
+
+            <button
+              onClick={() => setIsAdHoc(true)}
+              className={cn(
+                'w-full p-4 rounded-xl border-2 transition-all flex items-center gap-4 text-left',
+                isAdHoc ? 'border-primary bg-accent' : 'border-dashed border-border bg-card hover:border-primary/50'
+              )}
             >
-              <Navigation className="mr-2 h-5 w-5" />
-              Start Safe Trip
-            </PrimaryButton>
+              <div
+                className={cn(
+                  'w-12 h-12 rounded-xl flex items-center justify-center flex-shrink-0',
+                  isAdHoc ? 'gradient-primary' : 'bg-muted'
+                )}
+              >
+                <Search className={cn('h-6 w-6', isAdHoc ? 'text-primary-foreground' : 'text-muted-foreground')} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-foreground">Somewhere else</h3>
+                <p className="text-sm text-muted-foreground truncate">
+                  {hasAdHocPin ? adHocDestination.name || 'Dropped pin' : 'Search, drop a pin or paste coordinates'}
+                </p>
+              </div>
+            </button>
+
+            {isAdHoc && (
+              <div className="pt-2">
+                <AdHocDestinationPicker value={adHocDestination} onChange={setAdHocDestination} onError={setError} />
+              </div>
+            )}
           </div>
-        )}
+        </div>
+
+        {/* Waypoints */}
+        <WaypointsEditor locations={locations} waypoints={waypoints} onChange={setWaypoints} onError={setError} />
+
+        {/* Save as Template */}
+        <button
+          onClick={() => setShowTemplateDialog(true)}
+          disabled={!canStart}
+          className="w-full py-3 rounded-xl border-2 border-dashed border-border text-sm font-medium text-primary hover:border-primary/50 disabled:opacity-50 transition-all flex items-center justify-center gap-2"
+        >
+          <Bookmark className="h-4 w-4" />
+          Save as Template
+        </button>
+
+        {/* Start Button */}
+        <div className="fixed bottom-20 left-4 right-4 safe-area-bottom">
+          <PrimaryButton
+            fullWidth
+            size="lg"
+            onClick={handleStartTrip}
+            disabled={!canStart}
+            isLoading={isStarting}
+            variant="safe"
+          >
+            <Navigation className="mr-2 h-5 w-5" />
+            Start Safe Trip
+          </PrimaryButton>
+        </div>
       </div>
+
+      {canStart && (
+        <SaveTemplateDialog
+          open={showTemplateDialog}
+          onOpenChange={setShowTemplateDialog}
+          defaultName={templateName()}
+          onSave={handleSaveTemplate}
+          isSaving={isSavingTemplate}
+        />
+      )}
     </div>
   );
 }
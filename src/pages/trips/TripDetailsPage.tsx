@@ -1,42 +1,36 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useParams } from 'react-router-dom';
-import { MapPin, Clock, Route, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { MapPin, Clock, Route, CheckCircle, XCircle, AlertTriangle, Gauge, Bookmark, Timer } from 'lucide-react';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { LoadingState } from '@/components/shared/LoadingState';
 import { ErrorBanner } from '@/components/shared/ErrorBanner';
+import { NotifiedContacts } from '@/components/trips/NotifiedContacts';
+import { SaveTemplateDialog } from '@/components/trips/SaveTemplateDialog';
+import { toast } from '@/components/ui/sonner';
+import { RouteReplay } from '@/components/map/RouteReplay';
 import { tripsApi } from '@/api/trips';
 import { alertsApi } from '@/api/alerts';
-import { TripResponse, AlertResponse, ApiError } from '@/models/types';
-import { format } from 'date-fns';
+import { trustedContactsApi } from '@/api/trustedContacts';
+import { tripTemplatesApi } from '@/api/tripTemplates';
+import { TripResponse, AlertResponse, TrustedContactResponse, RoutePoint, ApiError } from '@/models/types';
+import { getTripJournal } from '@/services/tripJournal';
+import { getBreadcrumbs, mergeRoutes } from '@/services/breadcrumbs';
+import { getTripLegs } from '@/services/tripLegs';
+import { templateFromTrip } from '@/services/tripTemplates';
+import { CADENCE_POLICY_LABELS } from '@/services/location/cadence';
+import { differenceInMinutes } from 'date-fns';
+import { formatDate, formatTime, parseApiDate } from '@/lib/dates';
 import { cn } from '@/lib/utils';
 
-function parseApiDate(value?: string | null): Date | null {
-  if (!value) return null;
-
-  // Normalize microseconds -> milliseconds:
-  // "2025-12-31T14:25:11.067278" -> "2025-12-31T14:25:11.067"
-  const normalized = value.replace(/\.(\d{3})\d+$/, '.$1');
-
-  const d = new Date(normalized);
-  return Number.isNaN(d.getTime()) ? null : d;
-}
-
-function safeFormat(value: string | null | undefined, pattern: string, fallback = '—'): string {
-  const d = parseApiDate(value);
-  return d ? format(d, pattern) : fallback;
-}
-
-// If your backend uses startTime but your TS model still has startedAt,
-// this lets the page work until you align the types.
-function getTripStart(trip: TripResponse): string | null | undefined {
-  return (trip as any).startTime ?? (trip as any).startedAt ?? null;
-}
-
 export function TripDetailsPage() {
   const { tripId } = useParams<{ tripId: string }>();
   const [trip, setTrip] = useState<TripResponse | null>(null);
   const [alerts, setAlerts] = useState<AlertResponse[]>([]);
+  const [contacts, setContacts] = useState<TrustedContactResponse[]>([]);
+  const [route, setRoute] = useState<RoutePoint[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const loadTrip = useCallback(async () => {
@@ -46,13 +40,18 @@ export function TripDetailsPage() {
     setError(null);
 
     try {
-      const [tripData, alertsData] = await Promise.all([
+      const [tripData, alertsData, contactData, serverRoute, localRoute] = await Promise.all([
         tripsApi.get(tripId),
         alertsApi.listForTrip(tripId).catch(() => []),
+        trustedContactsApi.list().catch(() => [] as TrustedContactResponse[]),
+        tripsApi.getRoute(tripId).catch(() => [] as RoutePoint[]),
+        getBreadcrumbs(tripId),
       ]);
 
       setTrip(tripData);
       setAlerts(alertsData);
+      setContacts(contactData);
+      setRoute(mergeRoutes(serverRoute, localRoute));
     } catch (err) {
       const apiError = err as ApiError;
       setError(apiError.message || 'Failed to load trip details');
@@ -67,6 +66,22 @@ export function TripDetailsPage() {
     loadTrip();
   }, [loadTrip]);
 
+  const handleSaveTemplate = async (name: string) => {
+    setIsSavingTemplate(true);
+    setError(null);
+
+    try {
+      await tripTemplatesApi.create(templateFromTrip(name, trip));
+      toast.success('Template saved', { description: `Start "${name}" from your Trips page.` });
+      setShowTemplateDialog(false);
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to save template');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
   const getStatusStyle = (status: string) => {
     switch (status) {
       case 'COMPLETED':
@@ -101,15 +116,25 @@ export function TripDetailsPage() {
   const statusStyle = getStatusStyle(trip.status);
   const StatusIcon = statusStyle.icon;
 
-  const tripStart = getTripStart(trip);
+  const legs = getTripLegs(trip);
+  const cadencePolicies = Array.from(new Set(getTripJournal(trip.id).cadence.map((record) => record.policy)));
 
   return (
     <div className="min-h-screen bg-background">
       <PageHeader
         title={trip.destinationName ?? 'Trip Details'}
-        subtitle={safeFormat(tripStart, 'MMMM d, yyyy')}
+        subtitle={formatDate(trip.startedAt)}
         showBack
         backPath="/trips"
+        rightAction={
+          <button
+            onClick={() => setShowTemplateDialog(true)}
+            aria-label="Save as template"
+            className="p-2 rounded-xl hover:bg-accent transition-colors"
+          >
+            <Bookmark className="h-5 w-5 text-primary" />
+          </button>
+        }
       />
 
       <div className="p-4 space-y-4">
@@ -122,10 +147,10 @@ export function TripDetailsPage() {
             <div>
               <h3 className={cn('font-bold text-lg', statusStyle.color)}>{trip.status}</h3>
               <p className="text-sm text-muted-foreground">
-                {(trip as any).completedAt
-                  ? `Completed at ${safeFormat((trip as any).completedAt, 'h:mm a')}`
-                  : (trip as any).cancelledAt
-                  ? `Cancelled at ${safeFormat((trip as any).cancelledAt, 'h:mm a')}`
+                {trip.completedAt
+                  ? `Completed at ${formatTime(trip.completedAt)}`
+                  : trip.cancelledAt
+                  ? `Cancelled at ${formatTime(trip.cancelledAt)}`
                   : 'In progress'}
               </p>
             </div>
@@ -169,9 +194,108 @@ export function TripDetailsPage() {
                 </p>
               </div>
             </div>
+
+            <NotifiedContacts contactIds={trip.contactIds} contacts={contacts} />
+
+            {cadencePolicies.length > 0 && (
+              <div className="flex items-start gap-3">
+                <div className="w-10 h-10 rounded-xl bg-accent flex items-center justify-center flex-shrink-0">
+                  <Gauge className="h-5 w-5 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Location Update Policy</p>
+                  <p className="font-medium text-foreground">
+                    {cadencePolicies.map((policy) => CADENCE_POLICY_LABELS[policy]).join(', ')}
+                  </p>
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Legs */}
+        {legs.length > 1 && (
+          <div className="safe-card">
+            <h3 className="font-semibold text-foreground mb-4">Stops ({legs.length})</h3>
+            <ol className="space-y-3">
+              {legs.map((leg) => {
+                const started = parseApiDate(leg.startedAt);
+                const arrived = parseApiDate(leg.arrivedAt);
+                return (
+                  <li key={leg.waypointId ?? 'destination'} className="flex items-start gap-3">
+                    <span
+                      className={cn(
+                        'w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0',
+                        arrived ? 'bg-safe text-safe-foreground' : 'bg-muted text-muted-foreground'
+                      )}
+                    >
+                      {leg.index + 1}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-foreground truncate">{leg.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatTime(leg.startedAt)} → {formatTime(arrived, { fallback: 'not reached' })}
+                      </p>
+                    </div>
+                    {started && arrived && (
+                      <span className="text-sm font-medium text-foreground flex-shrink-0">
+                        {differenceInMinutes(arrived, started)} min
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+
+        {/* ETA Extensions */}
+        {trip.extensions?.length > 0 && (
+          <div className="safe-card">
+            <h3 className="font-semibold text-foreground mb-4">Time Extensions ({trip.extensions.length})</h3>
+            <ol className="space-y-3">
+              {trip.extensions.map((extension) => (
+                <li key={extension.id} className="flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-accent flex items-center justify-center flex-shrink-0">
+                    <Timer className="h-5 w-5 text-primary" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium text-foreground">+{extension.minutes} min</p>
+                      <span className="text-xs text-muted-foreground">{formatTime(extension.createdAt)}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Expected by {formatTime(extension.expectedArrivalAt)}
+                    </p>
+                    {extension.reason && <p className="text-sm text-foreground mt-1 italic">{extension.reason}</p>}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {/* Route */}
+        <div className="safe-card">
+          <h3 className="font-semibold text-foreground mb-4">Route</h3>
+          {route.length > 0 ? (
+            <RouteReplay
+              route={route}
+              destination={{ latitude: trip.destinationLatitude, longitude: trip.destinationLongitude }}
+              alerts={alerts.map((alert) => ({
+                id: alert.id,
+                type: alert.type,
+                message: alert.message,
+                firedAt: parseApiDate(alert.createdAt),
+                latitude: alert.latitude,
+                longitude: alert.longitude,
+              }))}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">No route was recorded for this trip.</p>
+          )}
+        </div>
+
         {/* Alerts */}
         {alerts.length > 0 && (
           <div className="safe-card">
@@ -204,7 +328,7 @@ export function TripDetailsPage() {
                       <div className="flex items-center justify-between gap-2">
                         <span className="font-medium text-foreground text-sm">{alert.type}</span>
                         <span className="text-xs text-muted-foreground">
-                          {safeFormat((alert as any).createdAt, 'h:mm a')}
+                          {formatTime(alert.createdAt)}
                         </span>
                       </div>
                       <p className="text-sm text-muted-foreground mt-0.5">{alert.message}</p>
@@ -221,6 +345,14 @@ export function TripDetailsPage() {
           </div>
         )}
       </div>
+
+      <SaveTemplateDialog
+        open={showTemplateDialog}
+        onOpenChange={setShowTemplateDialog}
+        defaultName={trip.destinationName ?? 'My trip'}
+        onSave={handleSaveTemplate}
+        isSaving={isSavingTemplate}
+      />
     </div>
   );
 }
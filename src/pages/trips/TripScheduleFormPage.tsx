@@ -0,0 +1,510 @@
+import { useState, useEffect } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Check, MapPin, ShieldAlert, Trash2 } from 'lucide-react';
+import { z } from 'zod';
+import { PageHeader } from '@/components/layout/PageHeader';
+import { PrimaryButton } from '@/components/shared/PrimaryButton';
+import { FormTextInput } from '@/components/shared/FormTextInput';
+import { LoadingState } from '@/components/shared/LoadingState';
+import { ErrorBanner } from '@/components/shared/ErrorBanner';
+import { ConfirmDialog } from '@/components/shared/ConfirmDialog';
+import { Switch } from '@/components/ui/switch';
+import { DEFAULT_CONTACT_COUNT, checkInOptions, transportModes } from '@/components/trips/tripOptions';
+import { LocationFormReturnState } from '@/pages/locations/LocationFormPage';
+import { savedLocationsApi } from '@/api/savedLocations';
+import { trustedContactsApi } from '@/api/trustedContacts';
+import { tripSchedulesApi } from '@/api/tripSchedules';
+import {
+  SavedLocationResponse,
+  TrustedContactResponse,
+  TripScheduleRequest,
+  Weekday,
+  ApiError,
+} from '@/models/types';
+import { cn } from '@/lib/utils';
+import { WEEKDAYS, WORKWEEK, notifySchedulesChanged } from '@/services/tripSchedules';
+
+const reminderOptions: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: 'Off' },
+  { minutes: 0, label: 'On time' },
+  { minutes: 5, label: '5 min' },
+  { minutes: 15, label: '15 min' },
+  { minutes: 30, label: '30 min' },
+];
+
+const deadlineOptions: { minutes: number; label: string }[] = [
+  { minutes: 15, label: '15 min' },
+  { minutes: 30, label: '30 min' },
+  { minutes: 60, label: '1 hr' },
+];
+
+const DEFAULT_DEADLINE_MINUTES = 30;
+
+const scheduleSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+    destinationId: z.string().min(1, 'Choose a destination'),
+    departureTime: z.string().regex(/^\d{2}:\d{2}$/, 'Choose a departure time'),
+    days: z.array(z.string()),
+    date: z.string().optional(),
+    contactIds: z.array(z.string()).optional(),
+    startDeadlineMinutes: z.number().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.days.length === 0 && !data.date) {
+      ctx.addIssue({ code: 'custom', path: ['date'], message: 'Pick a date or the days it repeats on' });
+    }
+    if (data.startDeadlineMinutes != null && !data.contactIds?.length) {
+      ctx.addIssue({ code: 'custom', path: ['contactIds'], message: 'Choose who to alert if you don\'t start' });
+    }
+  });
+
+/** Form kept in router state while the user adds a new location */
+interface ScheduleFormState {
+  draft?: TripScheduleRequest;
+  selectedLocationId?: string;
+}
+
+const emptySchedule = (): TripScheduleRequest => ({
+  name: '',
+  destinationId: '',
+  transportMode: 'WALKING',
+  departureTime: '08:00',
+  days: [...WORKWEEK],
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  reminderMinutesBefore: 5,
+  enabled: true,
+});
+
+export function TripScheduleFormPage() {
+  const navigate = useNavigate();
+  const { scheduleId } = useParams<{ scheduleId: string }>();
+  const isEditing = !!scheduleId;
+  const restored = (useLocation().state as ScheduleFormState | null) ?? {};
+
+  const [formData, setFormData] = useState<TripScheduleRequest>(() =>
+    restored.draft
+      ? { ...restored.draft, destinationId: restored.selectedLocationId ?? restored.draft.destinationId }
+      : emptySchedule()
+  );
+  const [locations, setLocations] = useState<SavedLocationResponse[]>([]);
+  const [contacts, setContacts] = useState<TrustedContactResponse[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadForm();
+  }, [scheduleId]);
+
+  const loadForm = async () => {
+    try {
+      const [locationData, contactData, schedule] = await Promise.all([
+        savedLocationsApi.list(),
+        trustedContactsApi.list().catch(() => [] as TrustedContactResponse[]),
+        isEditing && !restored.draft ? tripSchedulesApi.get(scheduleId!) : null,
+      ]);
+      setLocations(locationData);
+
+      const byPriority = [...contactData].sort((a, b) => a.priority - b.priority);
+      setContacts(byPriority);
+
+      if (schedule) {
+        const { id, userId, destinationName, ...request } = schedule;
+        setFormData(request);
+      } else if (!restored.draft) {
+        setFormData((prev) => ({
+          ...prev,
+          contactIds: byPriority.slice(0, DEFAULT_CONTACT_COUNT).map((contact) => contact.id),
+        }));
+      }
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to load schedule');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<TripScheduleRequest>) => setFormData((prev) => ({ ...prev, ...changes }));
+
+  const toggleDay = (day: Weekday) =>
+    update({
+      days: formData.days.includes(day) ? formData.days.filter((other) => other !== day) : [...formData.days, day],
+    });
+
+  const toggleContact = (contactId: string) => {
+    const contactIds = formData.contactIds ?? [];
+    update({
+      contactIds: contactIds.includes(contactId)
+        ? contactIds.filter((id) => id !== contactId)
+        : [...contactIds, contactId],
+    });
+  };
+
+  const handleAddLocation = () => {
+    const returnTo = isEditing ? `/trips/schedules/${scheduleId}` : '/trips/schedules/new';
+    const state: LocationFormReturnState = { returnTo, returnState: { draft: formData } };
+    navigate('/locations/new', { state });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setFieldErrors({});
+
+    const result = scheduleSchema.safeParse(formData);
+    if (!result.success) {
+      const errors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          errors[err.path[0] as string] = err.message;
+        }
+      });
+      setFieldErrors(errors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const submitData: TripScheduleRequest = {
+        ...formData,
+        name: formData.name.trim(),
+        date: formData.days.length === 0 ? formData.date : undefined,
+        // The departure time means the time where the user is now
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      };
+
+      if (isEditing) {
+        await tripSchedulesApi.update(scheduleId!, submitData);
+      } else {
+        await tripSchedulesApi.create(submitData);
+      }
+
+      if (submitData.reminderMinutesBefore != null && 'Notification' in window && Notification.permission === 'default') {
+        await Notification.requestPermission().catch(() => undefined);
+      }
+
+      notifySchedulesChanged();
+      navigate('/trips/schedules');
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to save schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await tripSchedulesApi.delete(scheduleId!);
+      notifySchedulesChanged();
+      navigate('/trips/schedules');
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to delete schedule');
+    } finally {
+      setIsDeleting(false);
+      setShowDeleteDialog(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <PageHeader title="Scheduled Trip" showBack />
+        <LoadingState message="Loading schedule..." />
+      </div>
+    );
+  }
+
+  const hasDeadline = formData.startDeadlineMinutes != null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader
+        title={isEditing ? 'Edit Scheduled Trip' : 'Schedule a Trip'}
+        showBack
+        backPath="/trips/schedules"
+      />
+
+      <div className="p-4">
+        {error && (
+          <div className="mb-4">
+            <ErrorBanner message={error} onDismiss={() => setError(null)} />
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <FormTextInput
+            label="Name"
+            value={formData.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="e.g., Office → Home"
+            error={fieldErrors.name}
+          />
+
+          {/* Destination */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Destination</h2>
+              <button type="button" onClick={handleAddLocation} className="text-sm font-medium text-primary hover:underline">
+                + Add New
+              </button>
+            </div>
+            {locations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Scheduled trips go to a saved location. Add one to continue.</p>
+            ) : (
+              <div className="space-y-2">
+                {locations.map((location) => {
+                  const isSelected = formData.destinationId === location.id;
+                  return (
+                    <button
+                      key={location.id}
+                      type="button"
+                      onClick={() => update({ destinationId: location.id })}
+                      className={cn(
+                        'w-full p-3 rounded-xl border-2 transition-all flex items-center gap-3 text-left',
+                        isSelected ? 'border-primary bg-accent' : 'border-border bg-card hover:border-primary/50'
+                      )}
+                    >
+                      <MapPin className={cn('h-5 w-5 flex-shrink-0', isSelected ? 'text-primary' : 'text-muted-foreground')} />
+                      <span className="flex-1 min-w-0 font-medium text-foreground truncate">{location.name}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {fieldErrors.destinationId && (
+              <p className="text-sm text-destructive font-medium mt-2">{fieldErrors.destinationId}</p>
+            )}
+          </div>
+
+          {/* Transport Mode */}
+          <div>
+            <h2 className="text-sm font-semibold text-muted-foreground mb-3 uppercase tracking-wide">Transport Mode</h2>
+            <div className="flex gap-3">
+              {transportModes.map(({ mode, icon: Icon, label }) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => update({ transportMode: mode })}
+                  className={cn(
+                    'flex-1 p-3 rounded-xl border-2 transition-all',
+                    formData.transportMode === mode
+                      ? 'border-primary bg-accent shadow-primary'
+                      : 'border-border bg-card hover:border-primary/50'
+                  )}
+                >
+                  <Icon
+                    className={cn(
+                      'h-5 w-5 mx-auto mb-1',
+                      formData.transportMode === mode ? 'text-primary' : 'text-muted-foreground'
+                    )}
+                  />
+                  <p className={cn('text-sm font-medium', formData.transportMode === mode ? 'text-primary' : 'text-foreground')}>
+                    {label}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* When */}
+          <div className="space-y-4">
+            <FormTextInput
+              label="Departure Time"
+              type="time"
+              value={formData.departureTime}
+              onChange={(e) => update({ departureTime: e.target.value })}
+              error={fieldErrors.departureTime}
+            />
+
+            <div>
+              <h2 className="text-sm font-semibold text-muted-foreground mb-1 uppercase tracking-wide">Repeat</h2>
+              <p className="text-sm text-muted-foreground mb-3">Leave every day off for a one-time trip.</p>
+              <div className="flex gap-1.5">
+                {WEEKDAYS.map(({ day, label }) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={cn(
+                      'flex-1 py-2 rounded-xl border-2 text-sm font-medium transition-all',
+                      formData.days.includes(day)
+                        ? 'border-primary bg-accent text-primary'
+                        : 'border-border bg-card text-foreground hover:border-primary/50'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {formData.days.length === 0 && (
+              <FormTextInput
+                label="Date"
+                type="date"
+                value={formData.date ?? ''}
+                onChange={(e) => update({ date: e.target.value || undefined })}
+                error={fieldErrors.date}
+              />
+            )}
+          </div>
+
+          {/* Reminder */}
+          <div>
+            <h2 className="text-sm font-semibold text-muted-foreground mb-1 uppercase tracking-wide">Reminder</h2>
+            <p className="text-sm text-muted-foreground mb-3">How long before departure to remind you to start the trip.</p>
+            <div className="flex gap-2">
+              {reminderOptions.map(({ minutes, label }) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => update({ reminderMinutesBefore: minutes ?? undefined })}
+                  className={cn(
+                    'flex-1 py-2 rounded-xl border-2 text-sm font-medium transition-all',
+                    (formData.reminderMinutesBefore ?? null) === minutes
+                      ? 'border-primary bg-accent text-primary'
+                      : 'border-border bg-card text-foreground hover:border-primary/50'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Check-in Timer */}
+          <div>
+            <h2 className="text-sm font-semibold text-muted-foreground mb-3 uppercase tracking-wide">Check-in Timer</h2>
+            <div className="flex gap-2">
+              {checkInOptions.map(({ minutes, label }) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => update({ checkInIntervalMinutes: minutes ?? undefined })}
+                  className={cn(
+                    'flex-1 py-2 rounded-xl border-2 text-sm font-medium transition-all',
+                    (formData.checkInIntervalMinutes ?? null) === minutes
+                      ? 'border-primary bg-accent text-primary'
+                      : 'border-border bg-card text-foreground hover:border-primary/50'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Contacts */}
+          <div>
+            <h2 className="text-sm font-semibold text-muted-foreground mb-3 uppercase tracking-wide">Notify Contacts</h2>
+            {contacts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No trusted contacts yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {contacts.map((contact) => {
+                  const isSelected = formData.contactIds?.includes(contact.id);
+                  return (
+                    <button
+                      key={contact.id}
+                      type="button"
+                      onClick={() => toggleContact(contact.id)}
+                      className={cn(
+                        'px-3 py-2 rounded-xl border-2 text-sm font-medium transition-all flex items-center gap-1.5',
+                        isSelected
+                          ? 'border-primary bg-accent text-primary'
+                          : 'border-border bg-card text-foreground hover:border-primary/50'
+                      )}
+                    >
+                      {isSelected && <Check className="h-4 w-4" />}
+                      {contact.name}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {fieldErrors.contactIds && (
+              <p className="text-sm text-destructive font-medium mt-2">{fieldErrors.contactIds}</p>
+            )}
+          </div>
+
+          {/* Start safeguard */}
+          <div className="safe-card space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <ShieldAlert className="h-5 w-5 text-warning flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-medium text-foreground">Alert if I don't start</p>
+                  <p className="text-sm text-muted-foreground">
+                    Your contacts are told if no trip has started this long after departure time.
+                  </p>
+                </div>
+              </div>
+              <Switch
+                checked={hasDeadline}
+                onCheckedChange={(checked) =>
+                  update({ startDeadlineMinutes: checked ? DEFAULT_DEADLINE_MINUTES : undefined })
+                }
+              />
+            </div>
+            {hasDeadline && (
+              <div className="flex gap-2">
+                {deadlineOptions.map(({ minutes, label }) => (
+                  <button
+                    key={minutes}
+                    type="button"
+                    onClick={() => update({ startDeadlineMinutes: minutes })}
+                    className={cn(
+                      'flex-1 py-2 rounded-xl border-2 text-sm font-medium transition-all',
+                      formData.startDeadlineMinutes === minutes
+                        ? 'border-primary bg-accent text-primary'
+                        : 'border-border bg-card text-foreground hover:border-primary/50'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="pt-2 space-y-3">
+            <PrimaryButton type="submit" fullWidth size="lg" isLoading={isSaving}>
+              {isEditing ? 'Save Changes' : 'Schedule Trip'}
+            </PrimaryButton>
+
+            {isEditing && (
+              <PrimaryButton
+                type="button"
+                variant="destructive"
+                fullWidth
+                onClick={() => setShowDeleteDialog(true)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Schedule
+              </PrimaryButton>
+            )}
+          </div>
+        </form>
+      </div>
+
+      <ConfirmDialog
+        open={showDeleteDialog}
+        onOpenChange={setShowDeleteDialog}
+        title="Delete Scheduled Trip"
+        description="You will no longer be reminded about this trip, and its start alert is turned off."
+        confirmText="Delete"
+        onConfirm={handleDelete}
+        variant="destructive"
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
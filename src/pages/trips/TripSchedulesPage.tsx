@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarClock, Play, Plus, ShieldAlert } from 'lucide-react';
+import { PageHeader } from '@/components/layout/PageHeader';
+import { LoadingState } from '@/components/shared/LoadingState';
+import { ErrorBanner } from '@/components/shared/ErrorBanner';
+import { EmptyState } from '@/components/shared/EmptyState';
+import { Switch } from '@/components/ui/switch';
+import { tripSchedulesApi } from '@/api/tripSchedules';
+import { TripScheduleResponse, ApiError } from '@/models/types';
+import { formatShortDayTime } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import { describeSchedule, getNextDeparture, notifySchedulesChanged, startTripPath } from '@/services/tripSchedules';
+
+export function TripSchedulesPage() {
+  const navigate = useNavigate();
+  const [schedules, setSchedules] = useState<TripScheduleResponse[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  const loadSchedules = async () => {
+    try {
+      const data = await tripSchedulesApi.list();
+      setSchedules(data);
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to load scheduled trips');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const setEnabled = async (schedule: TripScheduleResponse, enabled: boolean) => {
+    const { id, userId, destinationName, ...request } = schedule;
+    setSchedules((prev) => prev.map((other) => (other.id === id ? { ...other, enabled } : other)));
+
+    try {
+      await tripSchedulesApi.update(id, { ...request, enabled });
+      notifySchedulesChanged();
+    } catch (err) {
+      setSchedules((prev) => prev.map((other) => (other.id === id ? schedule : other)));
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to update scheduled trip');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <PageHeader title="Scheduled Trips" showBack backPath="/trips" />
+        <LoadingState message="Loading scheduled trips..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader
+        title="Scheduled Trips"
+        showBack
+        backPath="/trips"
+        rightAction={
+          <button
+            onClick={() => navigate('/trips/schedules/new')}
+            className="p-2 rounded-xl bg-primary text-primary-foreground hover:opacity-90 transition-opacity"
+          >
+            <Plus className="h-5 w-5" />
+          </button>
+        }
+      />
+
+      <div className="p-4">
+        {error && (
+          <div className="mb-4">
+            <ErrorBanner message={error} onDismiss={() => setError(null)} />
+          </div>
+        )}
+
+        {schedules.length === 0 ? (
+          <EmptyState
+            icon={CalendarClock}
+            title="No scheduled trips"
+            description="Schedule regular journeys like your commute and get reminded to start them"
+            actionLabel="Schedule a Trip"
+            onAction={() => navigate('/trips/schedules/new')}
+          />
+        ) : (
+          <div className="space-y-3">
+            {schedules.map((schedule) => {
+              const nextDeparture = schedule.enabled ? getNextDeparture(schedule) : null;
+
+              return (
+                <div
+                  key={schedule.id}
+                  onClick={() => navigate(`/trips/schedules/${schedule.id}`)}
+                  className={cn(
+                    'safe-card cursor-pointer hover:shadow-lg transition-shadow',
+                    !schedule.enabled && 'opacity-60'
+                  )}
+                >
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-foreground truncate">{schedule.name}</h3>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {schedule.destinationName} • {schedule.transportMode.toLowerCase()}
+                      </p>
+                      <p className="text-sm text-foreground mt-1">{describeSchedule(schedule)}</p>
+                      {nextDeparture && (
+                        <p className="text-sm text-muted-foreground">Next: {formatShortDayTime(nextDeparture)}</p>
+                      )}
+                      {schedule.startDeadlineMinutes != null && (
+                        <p className="text-xs font-medium text-warning mt-1 flex items-center gap-1">
+                          <ShieldAlert className="h-3.5 w-3.5" />
+                          Alerts contacts if not started {schedule.startDeadlineMinutes} min after departure
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex flex-col items-end gap-3" onClick={(e) => e.stopPropagation()}>
+                      <Switch
+                        checked={schedule.enabled}
+                        onCheckedChange={(checked) => setEnabled(schedule, checked)}
+                        aria-label={schedule.enabled ? 'Pause schedule' : 'Resume schedule'}
+                      />
+                      <button
+                        onClick={() => navigate(startTripPath(schedule.id))}
+                        aria-label="Start this trip now"
+                        className="p-2 rounded-xl bg-accent text-primary hover:opacity-90 transition-opacity"
+                      >
+                        <Play className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,36 +1,30 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Route, Play, Clock, CheckCircle, XCircle } from 'lucide-react';
+import { Route, Play, Clock, CheckCircle, XCircle, CalendarClock, ChevronRight, X } from 'lucide-react';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { PrimaryButton } from '@/components/shared/PrimaryButton';
 import { LoadingState } from '@/components/shared/LoadingState';
 import { ErrorBanner } from '@/components/shared/ErrorBanner';
 import { EmptyState } from '@/components/shared/EmptyState';
+import { ConfirmDialog } from '@/components/shared/ConfirmDialog';
+import { transportModes } from '@/components/trips/tripOptions';
 import { tripsApi } from '@/api/trips';
-import { TripResponse, ApiError } from '@/models/types';
-import { format } from 'date-fns';
+import { tripTemplatesApi } from '@/api/tripTemplates';
+import { TripResponse, TripTemplateResponse, ApiError } from '@/models/types';
+import { LocationError } from '@/services/location/types';
+import { startTrip } from '@/services/startTrip';
+import { planFromTemplate } from '@/services/tripTemplates';
+import { formatDateTime } from '@/lib/dates';
 import { cn } from '@/lib/utils';
 
-function parseApiDate(value?: string | null): Date | null {
-  if (!value) return null;
-
-  // Normalize microseconds to milliseconds:
-  // "2025-12-31T14:25:11.067278" -> "2025-12-31T14:25:11.067"
-  const normalized = value.replace(/\.(\d{3})\d+$/, '.$1');
-
-  const d = new Date(normalized);
-  return Number.isNaN(d.getTime()) ? null : d;
-}
-
-function formatTripDate(value?: string | null): string {
-  const d = parseApiDate(value);
-  return d ? format(d, 'MMM d, yyyy • h:mm a') : '—';
-}
-
 export function TripsPage() {
   const navigate = useNavigate();
   const [activeTrip, setActiveTrip] = useState<TripResponse | null>(null);
   const [history, setHistory] = useState<TripResponse[]>([]);
+  const [templates, setTemplates] = useState<TripTemplateResponse[]>([]);
+  const [startingTemplateId, setStartingTemplateId] = useState<string | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<TripTemplateResponse | null>(null);
+  const [isDeletingTemplate, setIsDeletingTemplate] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -39,13 +33,15 @@ export function TripsPage() {
     setError(null);
 
     try {
-      const [active, historyData] = await Promise.all([
+      const [active, historyData, templateData] = await Promise.all([
         tripsApi.getActive().catch(() => null),
         tripsApi.getHistory().catch(() => []),
+        tripTemplatesApi.list().catch(() => [] as TripTemplateResponse[]),
       ]);
 
       setActiveTrip(active);
       setHistory(historyData);
+      setTemplates(templateData);
     } catch (err) {
       const apiError = err as ApiError;
       setError(apiError.message || 'Failed to load trips');
@@ -58,6 +54,39 @@ export function TripsPage() {
     loadTrips();
   }, [loadTrips]);
 
+  const handleQuickStart = async (template: TripTemplateResponse) => {
+    if (startingTemplateId) return;
+
+    setStartingTemplateId(template.id);
+    setError(null);
+
+    try {
+      await startTrip(planFromTemplate(template));
+      navigate('/trips/active');
+    } catch (err) {
+      const error = err as LocationError | ApiError;
+      setError(error.message || 'Failed to start trip');
+    } finally {
+      setStartingTemplateId(null);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!templateToDelete) return;
+
+    setIsDeletingTemplate(true);
+    try {
+      await tripTemplatesApi.delete(templateToDelete.id);
+      setTemplates((prev) => prev.filter((template) => template.id !== templateToDelete.id));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to delete template');
+    } finally {
+      setIsDeletingTemplate(false);
+      setTemplateToDelete(null);
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'COMPLETED':
@@ -104,8 +133,12 @@ export function TripsPage() {
           >
             <div className="flex items-start justify-between mb-3">
               <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full bg-primary pulse-safe" />
-                <span className="text-sm font-semibold text-primary">TRIP ACTIVE</span>
+                <div
+                  className={cn('w-3 h-3 rounded-full', activeTrip.status === 'PAUSED' ? 'bg-muted-foreground' : 'bg-primary pulse-safe')}
+                />
+                <span className="text-sm font-semibold text-primary">
+                  {activeTrip.status === 'PAUSED' ? 'TRIP PAUSED' : 'TRIP ACTIVE'}
+                </span>
               </div>
 
               <span className="text-xs font-medium px-2 py-1 rounded-full bg-primary/10 text-primary">
@@ -145,6 +178,71 @@ export function TripsPage() {
           </div>
         )}
 
+        {/* Quick Start */}
+        {!activeTrip && templates.length > 0 && (
+          <div>
+            <h2 className="text-lg font-bold text-foreground mb-3">Quick Start</h2>
+            <div className="grid grid-cols-2 gap-3">
+              {templates.map((template) => {
+                const ModeIcon = transportModes.find(({ mode }) => mode === template.transportMode)?.icon ?? Play;
+                const stopCount = template.waypoints?.length ?? 0;
+                const isStarting = startingTemplateId === template.id;
+
+                return (
+                  <div
+                    key={template.id}
+                    onClick={() => handleQuickStart(template)}
+                    className={cn(
+                      'safe-card relative cursor-pointer hover:shadow-lg transition-shadow',
+                      isStarting && 'border-2 border-primary/30 bg-accent/50',
+                      startingTemplateId && !isStarting && 'opacity-60'
+                    )}
+                  >
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setTemplateToDelete(template);
+                      }}
+                      aria-label="Delete template"
+                      className="absolute top-2 right-2 p-1 rounded-lg text-muted-foreground hover:bg-accent"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                    <div className="w-10 h-10 rounded-xl gradient-primary flex items-center justify-center mb-3">
+                      <ModeIcon className={cn('h-5 w-5 text-primary-foreground', isStarting && 'animate-pulse')} />
+                    </div>
+                    <h3 className="font-semibold text-foreground truncate">{template.name}</h3>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {isStarting
+                        ? 'Starting...'
+                        : stopCount > 0
+                        ? `${stopCount} stop${stopCount !== 1 ? 's' : ''} • ${template.destinationName}`
+                        : template.destinationName}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Scheduled Trips */}
+        <button
+          onClick={() => navigate('/trips/schedules')}
+          className="w-full safe-card flex items-center justify-between hover:shadow-lg transition-shadow"
+        >
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-accent flex items-center justify-center">
+              <CalendarClock className="h-5 w-5 text-primary" />
+            </div>
+            <div className="text-left">
+              <p className="font-medium text-foreground">Scheduled Trips</p>
+              <p className="text-sm text-muted-foreground">Reminders for your regular journeys</p>
+            </div>
+          </div>
+          <ChevronRight className="h-5 w-5 text-muted-foreground" />
+        </button>
+
         {/* Trip History */}
         <div>
           <h2 className="text-lg font-bold text-foreground mb-3">Trip History</h2>
@@ -179,8 +277,7 @@ export function TripsPage() {
                       </div>
 
                       <p className="text-sm text-muted-foreground mt-1">
-                        {/* API field is startTime */}
-                        {formatTripDate((trip as any).startTime ?? (trip as any).startedAt)}
+                        {formatDateTime(trip.startedAt)}
                       </p>
 
                       <p className="text-sm text-muted-foreground">
@@ -194,6 +291,17 @@ export function TripsPage() {
           )}
         </div>
       </div>
+
+      <ConfirmDialog
+        open={!!templateToDelete}
+        onOpenChange={(open) => !open && setTemplateToDelete(null)}
+        title="Delete Template"
+        description={`Remove "${templateToDelete?.name ?? ''}" from your quick-start trips?`}
+        confirmText="Delete"
+        onConfirm={handleDeleteTemplate}
+        variant="destructive"
+        isLoading={isDeletingTemplate}
+      />
     </div>
   );
 }
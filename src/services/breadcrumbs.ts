@@ -0,0 +1,67 @@
+import { STORES, withStore } from '@/lib/idb';
+import { LocationUpdateRequest, RoutePoint } from '@/models/types';
+
+interface StoredBreadcrumb {
+  id?: number;
+  tripId: string;
+  point: RoutePoint;
+  recordedAt: number;
+}
+
+// Local trails only back up what the backend stores, so old ones are pruned
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+let hasPruned = false;
+
+async function pruneExpired() {
+  hasPruned = true;
+  const cutoff = IDBKeyRange.upperBound(Date.now() - RETENTION_MS);
+  const keys = await withStore(STORES.breadcrumbs, 'readonly', (store) =>
+    store.index('recordedAt').getAllKeys(cutoff)
+  );
+  await Promise.all(keys.map((key) => withStore(STORES.breadcrumbs, 'readwrite', (store) => store.delete(key))));
+}
+
+/** Remembers a location update sent for a trip so its route can be drawn later. */
+export async function recordBreadcrumb(tripId: string, update: LocationUpdateRequest) {
+  const entry: StoredBreadcrumb = {
+    tripId,
+    point: {
+      latitude: update.latitude,
+      longitude: update.longitude,
+      accuracy: update.accuracy,
+      speed: update.speed,
+      timestamp: update.timestamp ?? new Date().toISOString(),
+    },
+    recordedAt: Date.now(),
+  };
+
+  try {
+    await withStore(STORES.breadcrumbs, 'readwrite', (store) => store.add(entry));
+    if (!hasPruned) await pruneExpired();
+  } catch (err) {
+    console.error('Failed to record breadcrumb:', err);
+  }
+}
+
+export async function getBreadcrumbs(tripId: string): Promise<RoutePoint[]> {
+  const entries = await withStore(STORES.breadcrumbs, 'readonly', (store) =>
+    store.index('tripId').getAll(tripId)
+  ).catch(() => [] as StoredBreadcrumb[]);
+  return entries.sort((a, b) => a.id - b.id).map((entry) => entry.point);
+}
+
+/**
+ * Combines the route stored by the backend with the local trail. Points are
+ * matched on timestamp, so updates the backend already has are not drawn twice.
+ */
+export function mergeRoutes(server: RoutePoint[], local: RoutePoint[]): RoutePoint[] {
+  const byTime = new Map<number, RoutePoint>();
+  [...local, ...server].forEach((point) => {
+    const time = new Date(point.timestamp).getTime();
+    if (!Number.isNaN(time)) byTime.set(time, point);
+  });
+  return Array.from(byTime.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, point]) => point);
+}
@@ -0,0 +1,30 @@
+import { NominatimGeocoder } from './nominatimGeocoder';
+import { StaticGeocoder } from './staticGeocoder';
+import { Geocoder } from './types';
+
+let geocoder: Geocoder | null | undefined;
+
+/**
+ * The geocoder picked by VITE_GEOCODER ('nominatim' or 'static'), or null when
+ * address lookups are turned off. Nominatim requests go to VITE_GEOCODER_URL
+ * and there is deliberately no public default: searches and dropped pins
+ * reveal where the user is going, so they are only sent to a server the
+ * deployment names.
+ */
+export function getGeocoder(): Geocoder | null {
+  if (geocoder === undefined) {
+    const env = import.meta.env;
+    if (env.VITE_GEOCODER === 'static') {
+      geocoder = new StaticGeocoder();
+    } else if (env.VITE_GEOCODER_URL) {
+      geocoder = new NominatimGeocoder({
+        baseUrl: env.VITE_GEOCODER_URL,
+        email: env.VITE_GEOCODER_EMAIL || undefined,
+        language: typeof navigator !== 'undefined' ? navigator.language : undefined,
+      });
+    } else {
+      geocoder = null;
+    }
+  }
+  return geocoder;
+}
@@ -0,0 +1,15 @@
+import { GeocodeResult } from './types';
+
+// Places around the default map center used by the static geocoder
+export const GEOCODE_FIXTURES: GeocodeResult[] = [
+  { label: 'San Francisco City Hall, 1 Dr Carlton B Goodlett Pl, San Francisco, CA 94102', latitude: 37.77929, longitude: -122.41924 },
+  { label: 'Ferry Building, 1 Ferry Building, San Francisco, CA 94111', latitude: 37.79554, longitude: -122.39373 },
+  { label: 'Union Square, 333 Post St, San Francisco, CA 94108', latitude: 37.78799, longitude: -122.40744 },
+  { label: 'Civic Center BART Station, 1150 Market St, San Francisco, CA 94102', latitude: 37.77976, longitude: -122.41391 },
+  { label: 'Dolores Park, 19th St & Dolores St, San Francisco, CA 94114', latitude: 37.75962, longitude: -122.42692 },
+  { label: 'Golden Gate Park, 501 Stanyan St, San Francisco, CA 94117', latitude: 37.76904, longitude: -122.48351 },
+  { label: 'Oracle Park, 24 Willie Mays Plaza, San Francisco, CA 94107', latitude: 37.77858, longitude: -122.38927 },
+  { label: 'Caltrain Station, 700 4th St, San Francisco, CA 94107', latitude: 37.77676, longitude: -122.39469 },
+  { label: 'Mission Dolores, 3321 16th St, San Francisco, CA 94114', latitude: 37.76443, longitude: -122.42706 },
+  { label: 'Coit Tower, 1 Telegraph Hill Blvd, San Francisco, CA 94133', latitude: 37.80239, longitude: -122.40582 },
+];
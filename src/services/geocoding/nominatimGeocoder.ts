@@ -0,0 +1,68 @@
+import { Coordinates } from '@/lib/geo';
+import { ApiError } from '@/models/types';
+import { GeocodeOptions, GeocodeResult, Geocoder } from './types';
+
+interface NominatimPlace {
+  display_name: string;
+  lat: string;
+  lon: string;
+}
+
+export interface NominatimOptions {
+  /** Any Nominatim-compatible server, e.g. a self-hosted instance */
+  baseUrl: string;
+  /** Sent as `email`, which the public instance asks heavy users to provide */
+  email?: string;
+  language?: string;
+}
+
+const toResult = (place: NominatimPlace): GeocodeResult => ({
+  label: place.display_name,
+  latitude: parseFloat(place.lat),
+  longitude: parseFloat(place.lon),
+});
+
+export class NominatimGeocoder implements Geocoder {
+  readonly kind = 'nominatim';
+  readonly typeAhead = false;
+
+  constructor(private options: NominatimOptions) {}
+
+  async search(query: string, options: GeocodeOptions = {}): Promise<GeocodeResult[]> {
+    const places = await this.get<NominatimPlace[]>(
+      '/search',
+      { q: query, limit: String(options.limit ?? 5) },
+      options.signal
+    );
+    return places.map(toResult);
+  }
+
+  async reverse(coordinates: Coordinates, options: GeocodeOptions = {}): Promise<GeocodeResult | null> {
+    const place = await this.get<NominatimPlace & { error?: string }>(
+      '/reverse',
+      { lat: String(coordinates.latitude), lon: String(coordinates.longitude) },
+      options.signal
+    );
+    // Nominatim answers 200 with an error field when nothing is near the point
+    return place.error ? null : toResult(place);
+  }
+
+  private async get<T>(path: string, params: Record<string, string>, signal?: AbortSignal): Promise<T> {
+    const query = new URLSearchParams({ ...params, format: 'jsonv2' });
+    if (this.options.email) query.set('email', this.options.email);
+    if (this.options.language) query.set('accept-language', this.options.language);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}${path}?${query}`, { signal });
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') throw error;
+      throw { status: 0, message: 'Address lookup is unavailable. Please check your connection.' } as ApiError;
+    }
+
+    if (!response.ok) {
+      throw { status: response.status, message: 'Address lookup failed' } as ApiError;
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,38 @@
+import { Coordinates, haversineMeters } from '@/lib/geo';
+import { GEOCODE_FIXTURES } from './fixtures';
+import { GeocodeOptions, GeocodeResult, Geocoder } from './types';
+
+// Reverse lookups only match a fixture this close to the point
+const REVERSE_MATCH_METERS = 250;
+
+/**
+ * Answers from a fixed list of places, for tests and offline development.
+ * Search matches every word of the query against the label.
+ */
+export class StaticGeocoder implements Geocoder {
+  readonly kind = 'static';
+  readonly typeAhead = true;
+
+  constructor(private places: GeocodeResult[] = GEOCODE_FIXTURES) {}
+
+  async search(query: string, options: GeocodeOptions = {}): Promise<GeocodeResult[]> {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return this.places
+      .filter((place) => words.every((word) => place.label.toLowerCase().includes(word)))
+      .slice(0, options.limit ?? 5);
+  }
+
+  async reverse(coordinates: Coordinates): Promise<GeocodeResult | null> {
+    let nearest: GeocodeResult | null = null;
+    let nearestDistance = REVERSE_MATCH_METERS;
+
+    this.places.forEach((place) => {
+      const distance = haversineMeters(coordinates, place);
+      if (distance <= nearestDistance) {
+        nearest = place;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+}
@@ -0,0 +1,27 @@
+import { Coordinates } from '@/lib/geo';
+
+export type GeocoderKind = 'nominatim' | 'static';
+
+export interface GeocodeResult {
+  /** Full, human-readable address */
+  label: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodeOptions {
+  signal?: AbortSignal;
+  limit?: number;
+}
+
+/**
+ * Turns addresses into coordinates and back. Implementations reject with an
+ * ApiError when the lookup itself fails; "nothing found" is an empty result.
+ */
+export interface Geocoder {
+  readonly kind: GeocoderKind;
+  /** Whether every keystroke may be searched; false when queries leave the device */
+  readonly typeAhead: boolean;
+  search(query: string, options?: GeocodeOptions): Promise<GeocodeResult[]>;
+  reverse(coordinates: Coordinates, options?: GeocodeOptions): Promise<GeocodeResult | null>;
+}
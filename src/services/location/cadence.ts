@@ -0,0 +1,83 @@
+import { TransportMode } from '@/models/types';
+
+export type CadencePolicy = 'standard' | 'steady' | 'approach' | 'alert' | 'battery-saver';
+
+export interface BatteryState {
+  level: number;
+  charging: boolean;
+}
+
+export interface CadenceInput {
+  transportMode: TransportMode;
+  speedMetersPerSecond?: number;
+  distanceRemainingMeters?: number | null;
+  /** The last update was off track, carried a warning, or an alert is pending */
+  hasWarning?: boolean;
+  battery?: BatteryState | null;
+}
+
+export interface CadenceDecision {
+  policy: CadencePolicy;
+  intervalMs: number;
+}
+
+const BASE_INTERVAL_MS: Record<TransportMode, number> = {
+  WALKING: 15000,
+  BICYCLING: 10000,
+  DRIVING: 10000,
+};
+
+// Moving faster than this counts as steady progress along the route
+const STEADY_SPEED_MPS: Record<TransportMode, number> = {
+  WALKING: 0.8,
+  BICYCLING: 3,
+  DRIVING: 6,
+};
+
+const ALERT_INTERVAL_MS = 5000;
+const APPROACH_INTERVAL_MS = 5000;
+const APPROACH_DISTANCE_METERS = 300;
+const STEADY_FACTOR = 2;
+const MAX_INTERVAL_MS = 30000;
+const LOW_BATTERY_LEVEL = 0.2;
+const BATTERY_SAVER_FACTOR = 2;
+// Even on low battery, warnings and arrivals are reported at least this often
+const BATTERY_SAVER_URGENT_INTERVAL_MS = 10000;
+
+/**
+ * Picks how often location updates are sent. Warnings and the approach to the
+ * destination take priority; steady movement and a low battery stretch the interval.
+ */
+export function decideCadence(input: CadenceInput): CadenceDecision {
+  const base = BASE_INTERVAL_MS[input.transportMode] ?? BASE_INTERVAL_MS.WALKING;
+  const lowBattery = !!input.battery && !input.battery.charging && input.battery.level <= LOW_BATTERY_LEVEL;
+
+  let decision: CadenceDecision;
+  if (input.hasWarning) {
+    decision = { policy: 'alert', intervalMs: ALERT_INTERVAL_MS };
+  } else if (input.distanceRemainingMeters != null && input.distanceRemainingMeters <= APPROACH_DISTANCE_METERS) {
+    decision = { policy: 'approach', intervalMs: APPROACH_INTERVAL_MS };
+  } else if ((input.speedMetersPerSecond ?? 0) >= STEADY_SPEED_MPS[input.transportMode]) {
+    decision = { policy: 'steady', intervalMs: Math.min(base * STEADY_FACTOR, MAX_INTERVAL_MS) };
+  } else {
+    decision = { policy: 'standard', intervalMs: base };
+  }
+
+  if (!lowBattery) return decision;
+
+  const urgent = decision.policy === 'alert' || decision.policy === 'approach';
+  return {
+    policy: urgent ? decision.policy : 'battery-saver',
+    intervalMs: urgent
+      ? Math.max(decision.intervalMs, BATTERY_SAVER_URGENT_INTERVAL_MS)
+      : Math.min(decision.intervalMs * BATTERY_SAVER_FACTOR, MAX_INTERVAL_MS * BATTERY_SAVER_FACTOR),
+  };
+}
+
+export const CADENCE_POLICY_LABELS: Record<CadencePolicy, string> = {
+  standard: 'Standard',
+  steady: 'Steady movement',
+  approach: 'Approaching destination',
+  alert: 'Heightened (warning)',
+  'battery-saver': 'Battery saver',
+};
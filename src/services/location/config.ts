@@ -0,0 +1,53 @@
+import { LocationProviderKind } from './types';
+import { SimulationScenario } from './simulatedProvider';
+
+export interface LocationProviderConfig {
+  kind: LocationProviderKind;
+  scenario?: SimulationScenario;
+  replayUrl?: string;
+  replaySpeed?: number;
+}
+
+const STORAGE_KEY = 'safewalk_location_provider';
+const PROVIDER_KINDS: LocationProviderKind[] = ['gps', 'simulated', 'replay'];
+
+function fromEnv(): LocationProviderConfig {
+  const env = import.meta.env;
+  const kind = PROVIDER_KINDS.includes(env.VITE_LOCATION_PROVIDER) ? env.VITE_LOCATION_PROVIDER : 'gps';
+
+  return {
+    kind,
+    scenario: env.VITE_LOCATION_SCENARIO || undefined,
+    replayUrl: env.VITE_LOCATION_REPLAY_URL || undefined,
+    replaySpeed: env.VITE_LOCATION_REPLAY_SPEED ? parseFloat(env.VITE_LOCATION_REPLAY_SPEED) : undefined,
+  };
+}
+
+/**
+ * Which location provider trips use. In development builds a value saved in
+ * localStorage (set from the devtools console or setLocationProviderConfig)
+ * overrides the VITE_LOCATION_* env; production builds only read the env, so a
+ * stray key can't swap real GPS for a fake position.
+ */
+export function getLocationProviderConfig(): LocationProviderConfig {
+  if (!import.meta.env.DEV) return fromEnv();
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as LocationProviderConfig;
+      if (PROVIDER_KINDS.includes(parsed.kind)) return parsed;
+    }
+  } catch {
+    // Ignore malformed overrides
+  }
+  return fromEnv();
+}
+
+export function setLocationProviderConfig(config: LocationProviderConfig | null) {
+  if (config) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
@@ -0,0 +1,38 @@
+import { Coordinates } from '@/lib/geo';
+import { TransportMode } from '@/models/types';
+import { TYPICAL_SPEED_MPS } from '@/services/tripLegs';
+import { getLocationProviderConfig } from './config';
+import { GeolocationProvider } from './geolocationProvider';
+import { ReplayLocationProvider } from './replayProvider';
+import { SimulatedLocationProvider } from './simulatedProvider';
+import { LocationProvider } from './types';
+
+export interface ProviderRoute {
+  destination: Coordinates;
+  start?: Coordinates;
+  waypoints?: Coordinates[];
+  transportMode?: TransportMode;
+}
+
+export function createLocationProvider(route: ProviderRoute): LocationProvider {
+  const config = getLocationProviderConfig();
+
+  switch (config.kind) {
+    case 'simulated':
+      return new SimulatedLocationProvider({
+        destination: route.destination,
+        start: route.start,
+        waypoints: route.waypoints,
+        scenario: config.scenario,
+        speedMetersPerSecond: TYPICAL_SPEED_MPS[route.transportMode ?? 'WALKING'],
+      });
+    case 'replay':
+      if (config.replayUrl) {
+        return new ReplayLocationProvider({ url: config.replayUrl, speed: config.replaySpeed });
+      }
+      console.warn('Replay provider selected without a track URL, falling back to GPS');
+      return new GeolocationProvider();
+    default:
+      return new GeolocationProvider();
+  }
+}
@@ -0,0 +1,88 @@
+import { Coordinates, haversineMeters } from '@/lib/geo';
+import { LocationFix } from './types';
+
+export type ArrivalState = 'outside' | 'dwelling' | 'arrived' | 'dismissed';
+
+export interface GeofenceOptions {
+  center: Coordinates;
+  radiusMeters: number;
+  /** How long the user has to stay inside before arrival is reported */
+  dwellMs?: number;
+  /** Minimum number of inside fixes before arrival is reported */
+  minFixes?: number;
+  /** Fixes less accurate than this are ignored */
+  maxAccuracyMeters?: number;
+}
+
+const DEFAULT_DWELL_MS = 30000;
+const DEFAULT_MIN_FIXES = 3;
+const DEFAULT_MAX_ACCURACY_METERS = 75;
+
+// Share of the reported accuracy counted against the user when testing a boundary.
+// Entering needs the fix to be inside by that margin, leaving needs it to be outside by it.
+const ACCURACY_MARGIN = 0.5;
+
+/**
+ * Decides when a stream of fixes means the user has really arrived. A single
+ * fix inside the radius is not enough: the user has to dwell inside for a
+ * while, and inaccurate fixes neither start nor break a dwell.
+ */
+export class ArrivalDetector {
+  private state: ArrivalState = 'outside';
+  private dwellStartedAt: number | null = null;
+  private insideFixes = 0;
+  private readonly dwellMs: number;
+  private readonly minFixes: number;
+  private readonly maxAccuracy: number;
+
+  constructor(private readonly options: GeofenceOptions) {
+    this.dwellMs = options.dwellMs ?? DEFAULT_DWELL_MS;
+    this.minFixes = options.minFixes ?? DEFAULT_MIN_FIXES;
+    this.maxAccuracy = options.maxAccuracyMeters ?? DEFAULT_MAX_ACCURACY_METERS;
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  distanceTo(fix: Coordinates) {
+    return haversineMeters(fix, this.options.center);
+  }
+
+  update(fix: LocationFix): ArrivalState {
+    const accuracy = fix.accuracy ?? 0;
+    if (accuracy > this.maxAccuracy) return this.state;
+
+    const distance = this.distanceTo(fix);
+    const margin = accuracy * ACCURACY_MARGIN;
+    const clearlyInside = distance + margin <= this.options.radiusMeters;
+    const clearlyOutside = distance - margin > this.options.radiusMeters;
+
+    if (clearlyOutside) {
+      this.state = 'outside';
+      this.dwellStartedAt = null;
+      this.insideFixes = 0;
+      return this.state;
+    }
+
+    if (!clearlyInside || this.state === 'arrived' || this.state === 'dismissed') {
+      return this.state;
+    }
+
+    if (this.dwellStartedAt === null) {
+      this.dwellStartedAt = fix.timestamp;
+      this.state = 'dwelling';
+    }
+    this.insideFixes += 1;
+
+    if (this.insideFixes >= this.minFixes && fix.timestamp - this.dwellStartedAt >= this.dwellMs) {
+      this.state = 'arrived';
+    }
+    return this.state;
+  }
+
+  /** Suppresses the arrival until the user has left the geofence and come back. */
+  dismiss() {
+    this.state = 'dismissed';
+  }
+}
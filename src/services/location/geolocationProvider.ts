@@ -0,0 +1,111 @@
+import { LocationError, LocationFix, LocationProvider, LocationProviderListener } from './types';
+
+const WATCH_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 20000,
+  maximumAge: 5000,
+};
+
+function toLocationError(error: GeolocationPositionError): LocationError {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return { code: 'PERMISSION_DENIED', message: 'Location permission denied. Please enable location access.' };
+    case error.TIMEOUT:
+      return { code: 'TIMEOUT', message: 'Location request timed out. Please try again.' };
+    default:
+      return { code: 'POSITION_UNAVAILABLE', message: 'Location unavailable. Please check your device settings.' };
+  }
+}
+
+const UNSUPPORTED_ERROR: LocationError = {
+  code: 'UNSUPPORTED',
+  message: 'Geolocation is not supported by your browser',
+};
+
+function toLocationFix(position: GeolocationPosition): LocationFix {
+  return {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    accuracy: position.coords.accuracy ?? undefined,
+    speed: position.coords.speed ?? undefined,
+    heading: position.coords.heading ?? undefined,
+    timestamp: position.timestamp,
+  };
+}
+
+export class GeolocationProvider implements LocationProvider {
+  readonly kind = 'gps' as const;
+  private watchId: number | null = null;
+  private permissionStatus: PermissionStatus | null = null;
+  private listener: LocationProviderListener | null = null;
+
+  getCurrentFix() {
+    return new Promise<LocationFix>((resolve, reject) => {
+      if (!('geolocation' in navigator)) {
+        reject(UNSUPPORTED_ERROR);
+        return;
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        (position) => resolve(toLocationFix(position)),
+        (error) => reject(toLocationError(error)),
+        { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+      );
+    });
+  }
+
+  start(listener: LocationProviderListener) {
+    this.stop();
+    this.listener = listener;
+
+    if (!('geolocation' in navigator)) {
+      listener.onError(UNSUPPORTED_ERROR);
+      return;
+    }
+
+    this.watchId = navigator.geolocation.watchPosition(
+      (position) => this.listener?.onFix(toLocationFix(position)),
+      (error) => this.listener?.onError(toLocationError(error)),
+      WATCH_OPTIONS
+    );
+
+    this.watchPermission();
+  }
+
+  stop() {
+    if (this.watchId !== null) {
+      navigator.geolocation.clearWatch(this.watchId);
+      this.watchId = null;
+    }
+    if (this.permissionStatus) {
+      this.permissionStatus.onchange = null;
+      this.permissionStatus = null;
+    }
+    this.listener = null;
+  }
+
+  // watchPosition does not always report a revoked permission, so listen for it directly
+  private async watchPermission() {
+    if (!navigator.permissions?.query) return;
+
+    try {
+      const status = await navigator.permissions.query({ name: 'geolocation' });
+      if (!this.listener) return;
+
+      this.permissionStatus = status;
+      status.onchange = () => {
+        if (status.state === 'denied') {
+          this.listener?.onError({
+            code: 'PERMISSION_DENIED',
+            message: 'Location access was turned off. Your trip can no longer be tracked.',
+          });
+        } else if (status.state === 'granted' && this.listener) {
+          // Restart the watch so tracking resumes once access is restored
+          this.start(this.listener);
+        }
+      };
+    } catch {
+      // Permissions API not available for geolocation in this browser
+    }
+  }
+}
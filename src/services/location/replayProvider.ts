@@ -0,0 +1,112 @@
+import { haversineMeters } from '@/lib/geo';
+import { parseTrack, TrackPoint } from './trackParser';
+import { LocationError, LocationFix, LocationProvider, LocationProviderListener } from './types';
+
+export interface ReplayOptions {
+  /** URL of a .gpx or .geojson recording, e.g. a file under /public/tracks */
+  url: string;
+  /** Playback rate, 2 replays the recording twice as fast */
+  speed?: number;
+}
+
+// Used to space out points when the recording carries no timestamps
+const FALLBACK_SPEED_MPS = 1.4;
+const REPLAY_ACCURACY_METERS = 8;
+
+function withTimes(points: TrackPoint[]): Required<TrackPoint>[] {
+  if (points.every((point) => point.time !== undefined)) {
+    return points as Required<TrackPoint>[];
+  }
+
+  let time = 0;
+  return points.map((point, index) => {
+    if (index > 0) {
+      time += (haversineMeters(points[index - 1], point) / FALLBACK_SPEED_MPS) * 1000;
+    }
+    return { ...point, time };
+  });
+}
+
+export class ReplayLocationProvider implements LocationProvider {
+  readonly kind = 'replay' as const;
+  private readonly url: string;
+  private readonly speed: number;
+  private trackPromise: Promise<Required<TrackPoint>[]> | null = null;
+  private timeoutId: number | null = null;
+  private running = false;
+
+  constructor(options: ReplayOptions) {
+    this.url = options.url;
+    this.speed = options.speed && options.speed > 0 ? options.speed : 1;
+  }
+
+  async getCurrentFix() {
+    const track = await this.loadTrack();
+    return this.toFix(track, 0);
+  }
+
+  start(listener: LocationProviderListener) {
+    this.stop();
+    this.running = true;
+
+    this.loadTrack()
+      .then((track) => {
+        if (!this.running) return;
+
+        const emit = (index: number) => {
+          listener.onFix(this.toFix(track, index));
+          if (index + 1 >= track.length) return;
+
+          const delay = (track[index + 1].time - track[index].time) / this.speed;
+          this.timeoutId = window.setTimeout(() => emit(index + 1), Math.max(0, delay));
+        };
+
+        emit(0);
+      })
+      .catch((error: LocationError) => {
+        if (this.running) listener.onError(error);
+      });
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timeoutId !== null) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+
+  private loadTrack() {
+    if (!this.trackPromise) {
+      this.trackPromise = (async () => {
+        try {
+          const response = await fetch(this.url);
+          if (!response.ok) throw new Error(response.statusText);
+          return withTimes(parseTrack(await response.text(), this.url));
+        } catch (err) {
+          this.trackPromise = null;
+          throw {
+            code: 'POSITION_UNAVAILABLE',
+            message: `Could not load replay track: ${(err as Error).message}`,
+          } as LocationError;
+        }
+      })();
+    }
+    return this.trackPromise;
+  }
+
+  private toFix(track: Required<TrackPoint>[], index: number): LocationFix {
+    const point = track[index];
+    const previous = track[index - 1];
+    const seconds = previous ? (point.time - previous.time) / 1000 : 0;
+
+    return {
+      latitude: point.latitude,
+      longitude: point.longitude,
+      accuracy: REPLAY_ACCURACY_METERS,
+      speed: seconds > 0 ? haversineMeters(previous, point) / seconds : 0,
+      // Replayed fixes are stamped with the wall clock so the backend sees a live trip
+      timestamp: Date.now(),
+    };
+  }
+}
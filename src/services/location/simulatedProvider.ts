@@ -0,0 +1,144 @@
+import { Coordinates, haversineMeters, interpolate, offsetMeters } from '@/lib/geo';
+import { LocationFix, LocationProvider, LocationProviderListener } from './types';
+
+export type SimulationScenario = 'normal' | 'stopped' | 'deviation' | 'delayed';
+
+export interface SimulatorOptions {
+  destination: Coordinates;
+  start?: Coordinates;
+  /** Stops visited in order before the destination */
+  waypoints?: Coordinates[];
+  scenario?: SimulationScenario;
+  speedMetersPerSecond?: number;
+  tickMs?: number;
+}
+
+const DEFAULT_START: Coordinates = { latitude: 37.7749, longitude: -122.4194 };
+const DEFAULT_SPEED_MPS = 1.4;
+const DEFAULT_TICK_MS = 5000;
+const SIMULATED_ACCURACY_METERS = 10;
+
+// Fraction of the route after which the stopped and deviation scenarios kick in
+const INCIDENT_AT_FRACTION = 0.3;
+const DELAYED_SPEED_FACTOR = 0.25;
+// Long enough at each waypoint for the arrival geofence to confirm the stop
+const WAYPOINT_DWELL_MS = 45000;
+
+/**
+ * Deterministic straight-line walk from start to destination, pausing at each
+ * waypoint on the way. Scenarios let QA reproduce the backend's STOPPED,
+ * DEVIATION and DELAYED detection on demand.
+ */
+export class SimulatedLocationProvider implements LocationProvider {
+  readonly kind = 'simulated' as const;
+  private readonly route: Coordinates[];
+  // Distance along the route at which each route point is reached
+  private readonly distances: number[];
+  private readonly scenario: SimulationScenario;
+  private readonly speed: number;
+  private readonly tickMs: number;
+  private readonly routeMeters: number;
+  private position: Coordinates;
+  private travelledMeters = 0;
+  private nextWaypoint = 1;
+  private dwellTicksLeft = 0;
+  private intervalId: number | null = null;
+
+  constructor(options: SimulatorOptions) {
+    this.route = [options.start ?? DEFAULT_START, ...(options.waypoints ?? []), options.destination];
+    this.distances = this.route.reduce<number[]>(
+      (distances, point, index) =>
+        index === 0 ? [0] : [...distances, distances[index - 1] + haversineMeters(this.route[index - 1], point)],
+      []
+    );
+    this.scenario = options.scenario ?? 'normal';
+    this.speed = options.speedMetersPerSecond ?? DEFAULT_SPEED_MPS;
+    this.tickMs = options.tickMs ?? DEFAULT_TICK_MS;
+    this.routeMeters = this.distances[this.distances.length - 1];
+    this.position = { ...this.route[0] };
+  }
+
+  getCurrentFix() {
+    return Promise.resolve(this.toFix(0));
+  }
+
+  start(listener: LocationProviderListener) {
+    this.stop();
+
+    const tick = () => {
+      const speed = this.advance();
+      listener.onFix(this.toFix(speed));
+    };
+
+    listener.onFix(this.toFix(0));
+    this.intervalId = window.setInterval(tick, this.tickMs);
+  }
+
+  stop() {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  // Moves the position by one tick and returns the speed used for it
+  private advance(): number {
+    const incidentMeters = this.routeMeters * INCIDENT_AT_FRACTION;
+    const pastIncident = this.travelledMeters >= incidentMeters;
+
+    if (this.dwellTicksLeft > 0) {
+      this.dwellTicksLeft--;
+      return 0;
+    }
+
+    let speed = this.speed;
+    if (this.scenario === 'delayed') speed *= DELAYED_SPEED_FACTOR;
+    if (this.scenario === 'stopped' && pastIncident) return 0;
+
+    const stepMeters = (speed * this.tickMs) / 1000;
+    this.travelledMeters += stepMeters;
+
+    if (this.scenario === 'deviation' && pastIncident) {
+      // Walk away at a right angle to the route
+      const { point: incidentPoint, from, to } = this.pointAt(incidentMeters);
+      const north = to.latitude - from.latitude;
+      const east = (to.longitude - from.longitude) * Math.cos((from.latitude * Math.PI) / 180);
+      const length = Math.hypot(north, east) || 1;
+      const offMeters = this.travelledMeters - incidentMeters;
+      this.position = offsetMeters(incidentPoint, (north / length) * offMeters, (-east / length) * offMeters);
+      return speed;
+    }
+
+    // Waypoints are every route point between the start and the destination
+    if (this.nextWaypoint < this.route.length - 1 && this.travelledMeters >= this.distances[this.nextWaypoint]) {
+      this.travelledMeters = this.distances[this.nextWaypoint];
+      this.nextWaypoint++;
+      this.dwellTicksLeft = Math.ceil(WAYPOINT_DWELL_MS / this.tickMs);
+    }
+
+    this.travelledMeters = Math.min(this.travelledMeters, this.routeMeters);
+    this.position = this.pointAt(this.travelledMeters).point;
+    return this.travelledMeters < this.routeMeters ? speed : 0;
+  }
+
+  // The point a given distance along the route, with the segment it lies on
+  private pointAt(meters: number) {
+    let segment = 1;
+    while (segment < this.route.length - 1 && this.distances[segment] < meters) segment++;
+
+    const from = this.route[segment - 1];
+    const to = this.route[segment];
+    const segmentMeters = this.distances[segment] - this.distances[segment - 1];
+    const fraction = segmentMeters > 0 ? Math.min(1, (meters - this.distances[segment - 1]) / segmentMeters) : 1;
+    return { point: interpolate(from, to, fraction), from, to };
+  }
+
+  private toFix(speed: number): LocationFix {
+    return {
+      ...this.position,
+      accuracy: SIMULATED_ACCURACY_METERS,
+      speed,
+      timestamp: Date.now(),
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { Coordinates } from '@/lib/geo';
+
+export interface TrackPoint extends Coordinates {
+  /** Epoch milliseconds, when the recording has timestamps */
+  time?: number;
+}
+
+function parseTime(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+export function parseGpx(text: string): TrackPoint[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid GPX file');
+  }
+
+  // Prefer track points, fall back to route points
+  let nodes = Array.from(doc.getElementsByTagName('trkpt'));
+  if (nodes.length === 0) nodes = Array.from(doc.getElementsByTagName('rtept'));
+
+  return nodes.map((node) => ({
+    latitude: parseFloat(node.getAttribute('lat') ?? ''),
+    longitude: parseFloat(node.getAttribute('lon') ?? ''),
+    time: parseTime(node.getElementsByTagName('time')[0]?.textContent),
+  }));
+}
+
+type Position = [number, number, ...number[]];
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: Position[] | Position[][];
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry;
+  properties?: { coordTimes?: unknown[] | unknown[][]; times?: unknown[] } | null;
+}
+
+// Supports LineString and MultiLineString geometries, with timestamps in the
+// `coordTimes` (togeojson) or `times` feature properties
+export function parseGeoJson(text: string): TrackPoint[] {
+  const json = JSON.parse(text);
+  const features: GeoJsonFeature[] =
+    json.type === 'FeatureCollection'
+      ? json.features
+      : json.type === 'Feature'
+      ? [json]
+      : [{ type: 'Feature', geometry: json, properties: null }];
+
+  return features.flatMap((feature) => {
+    const { geometry, properties } = feature;
+    if (!geometry?.coordinates) return [];
+    if (geometry.type !== 'LineString' && geometry.type !== 'MultiLineString') return [];
+
+    const lines = (geometry.type === 'MultiLineString' ? geometry.coordinates : [geometry.coordinates]) as Position[][];
+    const rawTimes = properties?.coordTimes ?? properties?.times ?? [];
+    const times = (geometry.type === 'MultiLineString' ? rawTimes : [rawTimes]) as unknown[][];
+
+    return lines.flatMap((line, lineIndex) =>
+      line.map(([longitude, latitude], index) => ({
+        latitude,
+        longitude,
+        time: parseTime(times[lineIndex]?.[index]),
+      }))
+    );
+  });
+}
+
+export function parseTrack(text: string, fileName = ''): TrackPoint[] {
+  const isGpx = fileName.toLowerCase().endsWith('.gpx') || text.trimStart().startsWith('<');
+  const points = (isGpx ? parseGpx(text) : parseGeoJson(text)).filter(
+    (point) => Number.isFinite(point.latitude) && Number.isFinite(point.longitude)
+  );
+
+  if (points.length === 0) {
+    throw new Error('Track contains no points');
+  }
+  return points;
+}
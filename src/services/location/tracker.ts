@@ -0,0 +1,78 @@
+import { LocationError, LocationFix, LocationProvider, TrackerState } from './types';
+
+type TrackerListener = (state: TrackerState) => void;
+
+const INITIAL_STATE: TrackerState = {
+  status: 'idle',
+  providerKind: null,
+  fix: null,
+  error: null,
+};
+
+class LocationTracker {
+  private state: TrackerState = INITIAL_STATE;
+  private provider: LocationProvider | null = null;
+  private listeners = new Set<TrackerListener>();
+
+  start(provider: LocationProvider) {
+    this.stop();
+    this.provider = provider;
+    this.setState({ status: 'locating', providerKind: provider.kind, fix: null, error: null });
+
+    provider.start({
+      onFix: (fix) => this.handleFix(provider, fix),
+      onError: (error) => this.handleError(provider, error),
+    });
+  }
+
+  stop() {
+    if (!this.provider) return;
+    this.provider.stop();
+    this.provider = null;
+    this.setState(INITIAL_STATE);
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  getLatestFix() {
+    return this.state.fix;
+  }
+
+  subscribe(listener: TrackerListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleFix(provider: LocationProvider, fix: LocationFix) {
+    if (provider !== this.provider) return;
+    this.setState({ ...this.state, status: 'tracking', fix, error: null });
+  }
+
+  private handleError(provider: LocationProvider, error: LocationError) {
+    if (provider !== this.provider) return;
+
+    switch (error.code) {
+      case 'PERMISSION_DENIED':
+        this.setState({ ...this.state, status: 'denied', error });
+        break;
+      case 'UNSUPPORTED':
+        this.setState({ ...this.state, status: 'unavailable', error });
+        break;
+      default:
+        // Transient failures: keep the last known fix, the watch keeps retrying
+        this.setState({ ...this.state, status: this.state.fix ? 'tracking' : 'locating', error });
+    }
+  }
+
+  private setState(state: TrackerState) {
+    this.state = state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+export const locationTracker = new LocationTracker();
+export default locationTracker;
@@ -0,0 +1,51 @@
+import { LocationUpdateRequest } from '@/models/types';
+
+export type LocationProviderKind = 'gps' | 'simulated' | 'replay';
+
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  speed?: number;
+  heading?: number;
+  timestamp: number;
+}
+
+export type LocationErrorCode = 'PERMISSION_DENIED' | 'POSITION_UNAVAILABLE' | 'TIMEOUT' | 'UNSUPPORTED';
+
+export interface LocationError {
+  code: LocationErrorCode;
+  message: string;
+}
+
+export interface LocationProviderListener {
+  onFix: (fix: LocationFix) => void;
+  onError: (error: LocationError) => void;
+}
+
+export interface LocationProvider {
+  readonly kind: LocationProviderKind;
+  /** Resolves a single fix, or rejects with a LocationError. */
+  getCurrentFix(): Promise<LocationFix>;
+  start(listener: LocationProviderListener): void;
+  stop(): void;
+}
+
+export type TrackerStatus = 'idle' | 'locating' | 'tracking' | 'denied' | 'unavailable';
+
+export interface TrackerState {
+  status: TrackerStatus;
+  providerKind: LocationProviderKind | null;
+  fix: LocationFix | null;
+  error: LocationError | null;
+}
+
+export function toLocationUpdateRequest(fix: LocationFix): LocationUpdateRequest {
+  return {
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    accuracy: fix.accuracy,
+    speed: fix.speed,
+    timestamp: new Date(fix.timestamp).toISOString(),
+  };
+}
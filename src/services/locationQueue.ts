@@ -0,0 +1,146 @@
+import { tripsApi } from '@/api/trips';
+import { STORES, withStore } from '@/lib/idb';
+import { recordBreadcrumb } from './breadcrumbs';
+import { ApiError, LocationUpdateRequest, LocationUpdateResponse } from '@/models/types';
+
+interface QueuedLocationUpdate {
+  id?: number;
+  tripId: string;
+  update: LocationUpdateRequest;
+  queuedAt: number;
+}
+
+type PendingListener = (tripId: string, count: number) => void;
+
+// Network failures and server outages are worth retrying; anything else was rejected for good
+const isRetryable = (error: ApiError) => error.status === 0 || error.status >= 500;
+
+/**
+ * Persists location updates that could not be delivered and replays them in
+ * their original order, with their original timestamps, once the API is reachable.
+ */
+class LocationUpdateQueue {
+  private pending = new Map<string, number>();
+  private flushes = new Map<string, Promise<LocationUpdateResponse | null>>();
+  private listeners = new Set<PendingListener>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.pending.forEach((count, tripId) => {
+          if (count > 0) this.flush(tripId);
+        });
+      });
+    }
+  }
+
+  /**
+   * Sends an update, or queues it when the API is unreachable. Updates are
+   * queued behind older pending ones so the backend always receives them in order.
+   */
+  async submit(tripId: string, locationUpdate: LocationUpdateRequest): Promise<LocationUpdateResponse | null> {
+    // Stamped once so the local trail and the backend agree on when each point was taken
+    const update = { ...locationUpdate, timestamp: locationUpdate.timestamp ?? new Date().toISOString() };
+    recordBreadcrumb(tripId, update);
+
+    if ((await this.count(tripId)) > 0) {
+      await this.enqueue(tripId, update);
+      return this.flush(tripId);
+    }
+
+    try {
+      return await tripsApi.updateLocation(tripId, update);
+    } catch (err) {
+      if (!isRetryable(err as ApiError)) throw err;
+      await this.enqueue(tripId, update);
+      return null;
+    }
+  }
+
+  flush(tripId: string): Promise<LocationUpdateResponse | null> {
+    const inFlight = this.flushes.get(tripId);
+    if (inFlight) return inFlight;
+
+    const flush = this.replay(tripId).finally(() => this.flushes.delete(tripId));
+    this.flushes.set(tripId, flush);
+    return flush;
+  }
+
+  async count(tripId: string): Promise<number> {
+    if (!this.pending.has(tripId)) {
+      const count = await withStore(STORES.locationQueue, 'readonly', (store) =>
+        store.index('tripId').count(tripId)
+      ).catch(() => 0);
+      this.setPending(tripId, count);
+    }
+    return this.pending.get(tripId);
+  }
+
+  getPendingCount(tripId: string) {
+    return this.pending.get(tripId) ?? 0;
+  }
+
+  async clear(tripId: string) {
+    const entries = await this.entries(tripId);
+    await Promise.all(entries.map((entry) => this.remove(entry)));
+    this.setPending(tripId, 0);
+  }
+
+  subscribe(listener: PendingListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async replay(tripId: string): Promise<LocationUpdateResponse | null> {
+    let latest: LocationUpdateResponse | null = null;
+
+    for (const entry of await this.entries(tripId)) {
+      try {
+        latest = await tripsApi.updateLocation(tripId, entry.update);
+      } catch (err) {
+        if (isRetryable(err as ApiError)) break;
+        console.error('Dropping rejected location update:', err);
+      }
+      await this.remove(entry);
+    }
+
+    return latest;
+  }
+
+  private async enqueue(tripId: string, update: LocationUpdateRequest) {
+    const entry: QueuedLocationUpdate = {
+      tripId,
+      update: { ...update, timestamp: update.timestamp ?? new Date().toISOString() },
+      queuedAt: Date.now(),
+    };
+
+    try {
+      await withStore(STORES.locationQueue, 'readwrite', (store) => store.add(entry));
+      this.setPending(tripId, this.getPendingCount(tripId) + 1);
+    } catch (err) {
+      console.error('Failed to queue location update:', err);
+    }
+  }
+
+  private async entries(tripId: string): Promise<QueuedLocationUpdate[]> {
+    const entries = await withStore(STORES.locationQueue, 'readonly', (store) =>
+      store.index('tripId').getAll(tripId)
+    ).catch(() => [] as QueuedLocationUpdate[]);
+    return entries.sort((a, b) => a.id - b.id);
+  }
+
+  private async remove(entry: QueuedLocationUpdate) {
+    await withStore(STORES.locationQueue, 'readwrite', (store) => store.delete(entry.id));
+    this.setPending(entry.tripId, Math.max(0, this.getPendingCount(entry.tripId) - 1));
+  }
+
+  private setPending(tripId: string, count: number) {
+    this.pending.set(tripId, count);
+    this.listeners.forEach((listener) => listener(tripId, count));
+  }
+}
+
+export const locationQueue = new LocationUpdateQueue();
+export default locationQueue;
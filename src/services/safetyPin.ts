@@ -0,0 +1,62 @@
+export type PinCheckResult = 'safety' | 'duress' | 'invalid';
+
+interface StoredPins {
+  salt: string;
+  safetyHash: string;
+  duressHash?: string;
+}
+
+const STORAGE_KEY = 'safewalk_safety_pins';
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function hashPin(pin: string, salt: string) {
+  const data = new TextEncoder().encode(`${salt}:${pin}`);
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+}
+
+function readPins(): StoredPins | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StoredPins) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function hasSafetyPin() {
+  return !!readPins();
+}
+
+export function hasDuressPin() {
+  return !!readPins()?.duressHash;
+}
+
+/** Stores salted hashes of the PINs; the PINs themselves never leave memory. */
+export async function setSafetyPins(safetyPin: string, duressPin?: string) {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+  const pins: StoredPins = {
+    salt,
+    safetyHash: await hashPin(safetyPin, salt),
+    duressHash: duressPin ? await hashPin(duressPin, salt) : undefined,
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(pins));
+}
+
+export function clearSafetyPins() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export async function checkPin(pin: string): Promise<PinCheckResult> {
+  const pins = readPins();
+  if (!pins) return 'invalid';
+
+  const hash = await hashPin(pin, pins.salt);
+  if (hash === pins.safetyHash) return 'safety';
+  if (pins.duressHash && hash === pins.duressHash) return 'duress';
+  return 'invalid';
+}
@@ -0,0 +1,88 @@
+import { alertsApi } from '@/api/alerts';
+import { tripsApi } from '@/api/trips';
+import { AlertResponse, ApiError } from '@/models/types';
+import locationTracker from '@/services/location/tracker';
+import { GeolocationProvider } from '@/services/location/geolocationProvider';
+import { LocationFix } from '@/services/location/types';
+
+export interface SosSettings {
+  countdownSeconds: number;
+  /** Every SOS is sent without sound, vibration or on-screen confirmation */
+  alwaysSilent: boolean;
+}
+
+export interface SendSosOptions {
+  tripId?: string | null;
+  silent: boolean;
+  message?: string;
+}
+
+const STORAGE_KEY = 'safewalk_sos_settings';
+const DEFAULT_SETTINGS: SosSettings = { countdownSeconds: 5, alwaysSilent: false };
+
+export const SOS_COUNTDOWN_OPTIONS = [0, 3, 5, 10];
+
+const LOCATION_TIMEOUT_MS = 5000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+export function getSosSettings(): SosSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSosSettings(settings: SosSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Prefer the fix the trip tracker already has, otherwise ask the device once
+async function currentFix(): Promise<LocationFix | null> {
+  const tracked = locationTracker.getLatestFix();
+  if (tracked) return tracked;
+
+  const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), LOCATION_TIMEOUT_MS));
+  return Promise.race([new GeolocationProvider().getCurrentFix().catch(() => null), timeout]);
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Raises an SOS alert with the best location available. Network failures are
+ * retried a few times, since this is the one request that must get through.
+ */
+export async function sendSos(options: SendSosOptions): Promise<AlertResponse> {
+  const [fix, tripId] = await Promise.all([
+    currentFix(),
+    options.tripId !== undefined
+      ? Promise.resolve(options.tripId)
+      : tripsApi
+          .getActive()
+          .then((trip) => trip?.id ?? null)
+          .catch(() => null),
+  ]);
+
+  const request = {
+    tripId: tripId ?? undefined,
+    latitude: fix?.latitude,
+    longitude: fix?.longitude,
+    accuracy: fix?.accuracy,
+    silent: options.silent,
+    message: options.message,
+    timestamp: new Date().toISOString(),
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await alertsApi.createSos(request);
+    } catch (err) {
+      const apiError = err as ApiError;
+      const retryable = apiError.status === 0 || apiError.status >= 500;
+      if (!retryable || attempt >= MAX_ATTEMPTS) throw err;
+      await wait(RETRY_DELAY_MS * attempt);
+    }
+  }
+}
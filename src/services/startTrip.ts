@@ -0,0 +1,38 @@
+import { tripsApi } from '@/api/trips';
+import { Coordinates } from '@/lib/geo';
+import { StartTripRequest, TripResponse } from '@/models/types';
+import { createLocationProvider } from '@/services/location/createLocationProvider';
+import { updateTripJournal } from '@/services/tripJournal';
+
+/** Everything needed to start a trip except where the user is right now */
+export interface TripPlan {
+  request: Omit<StartTripRequest, 'currentLatitude' | 'currentLongitude'>;
+  destination: Coordinates;
+  /** Stop coordinates, in the same order as request.waypoints */
+  waypoints: Coordinates[];
+  checkInIntervalMinutes?: number | null;
+}
+
+/**
+ * Starts a trip from the current position and records the settings the
+ * backend doesn't keep in the trip journal. Rejects with a LocationError
+ * when no fix is available, or an ApiError.
+ */
+export async function startTrip({ request, destination, waypoints, checkInIntervalMinutes }: TripPlan): Promise<TripResponse> {
+  const provider = createLocationProvider({ destination, waypoints, transportMode: request.transportMode });
+  const position = await provider.getCurrentFix();
+
+  const trip = await tripsApi.start({
+    ...request,
+    currentLatitude: position.latitude,
+    currentLongitude: position.longitude,
+  });
+
+  updateTripJournal(trip.id, (entry) => ({
+    ...entry,
+    ...(checkInIntervalMinutes && { checkInIntervalMinutes, lastCheckInAt: new Date().toISOString() }),
+    ...(request.destination && { adHocDestination: request.destination }),
+  }));
+
+  return trip;
+}
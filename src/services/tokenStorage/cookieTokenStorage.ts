@@ -0,0 +1,28 @@
+import { AuthTokens } from '@/models/types';
+import { TokenStorage } from './types';
+
+/**
+ * For backends that issue the refresh token as an httpOnly cookie. Only the
+ * short-lived access token is held, in memory; after a reload the session
+ * is restored by refreshing with the cookie.
+ */
+export class CookieTokenStorage implements TokenStorage {
+  readonly kind = 'cookie' as const;
+  readonly persistent = false;
+  readonly usesRefreshCookie = true;
+  private accessToken: string | null = null;
+
+  load() {
+    return Promise.resolve(this.accessToken ? { accessToken: this.accessToken } : null);
+  }
+
+  save(tokens: AuthTokens) {
+    this.accessToken = tokens.accessToken;
+    return Promise.resolve();
+  }
+
+  clear() {
+    this.accessToken = null;
+    return Promise.resolve();
+  }
+}
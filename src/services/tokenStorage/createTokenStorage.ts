@@ -0,0 +1,22 @@
+import { CookieTokenStorage } from './cookieTokenStorage';
+import { IndexedDbTokenStorage } from './indexedDbTokenStorage';
+import { MemoryTokenStorage } from './memoryTokenStorage';
+import { TokenStorage } from './types';
+
+/**
+ * The token storage picked by VITE_TOKEN_STORAGE ('memory', 'indexeddb' or
+ * 'cookie'). Encrypted IndexedDB is the default; it needs WebCrypto, which
+ * browsers only offer in secure contexts, so plain-http origins fall back to memory.
+ */
+export function createTokenStorage(): TokenStorage {
+  switch (import.meta.env.VITE_TOKEN_STORAGE) {
+    case 'memory':
+      return new MemoryTokenStorage();
+    case 'cookie':
+      return new CookieTokenStorage();
+    default:
+      if (IndexedDbTokenStorage.isSupported()) return new IndexedDbTokenStorage();
+      console.warn('Encrypted token storage is unavailable here, keeping tokens in memory');
+      return new MemoryTokenStorage();
+  }
+}
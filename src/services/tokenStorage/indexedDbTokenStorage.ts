@@ -0,0 +1,90 @@
+import { STORES, withStore } from '@/lib/idb';
+import { AuthTokens } from '@/models/types';
+import { TokenStorage } from './types';
+
+const KEY_ID = 'tokenKey';
+const TOKENS_ID = 'tokens';
+const IV_BYTES = 12;
+
+interface EncryptedTokens {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+/**
+ * Encrypts tokens with AES-GCM before writing them to IndexedDB. The key is
+ * generated as non-extractable and stored next to them as a CryptoKey, so
+ * scripts can use it in this origin but never read its bytes, and a copy of
+ * the database files alone doesn't reveal the tokens.
+ */
+export class IndexedDbTokenStorage implements TokenStorage {
+  readonly kind = 'indexeddb' as const;
+  readonly persistent = true;
+  readonly usesRefreshCookie = false;
+  private keyPromise: Promise<CryptoKey> | null = null;
+
+  static isSupported() {
+    return typeof indexedDB !== 'undefined' && !!globalThis.crypto?.subtle;
+  }
+
+  async load(): Promise<AuthTokens | null> {
+    try {
+      const stored = await withStore<EncryptedTokens | undefined>(STORES.secrets, 'readonly', (store) =>
+        store.get(TOKENS_ID)
+      );
+      if (!stored) return null;
+
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv }, await this.getKey(), stored.data);
+      return JSON.parse(new TextDecoder().decode(plaintext)) as AuthTokens;
+    } catch (err) {
+      console.warn('Stored tokens could not be read:', err);
+      return null;
+    }
+  }
+
+  async save(tokens: AuthTokens) {
+    try {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+      const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        await this.getKey(),
+        new TextEncoder().encode(JSON.stringify(tokens))
+      );
+      await withStore(STORES.secrets, 'readwrite', (store) => store.put({ iv, data } satisfies EncryptedTokens, TOKENS_ID));
+    } catch (err) {
+      console.warn('Tokens could not be stored:', err);
+    }
+  }
+
+  async clear() {
+    try {
+      await withStore(STORES.secrets, 'readwrite', (store) => store.delete(TOKENS_ID));
+    } catch (err) {
+      console.warn('Stored tokens could not be cleared:', err);
+    }
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.loadOrCreateKey();
+      this.keyPromise.catch(() => {
+        this.keyPromise = null;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  private async loadOrCreateKey(): Promise<CryptoKey> {
+    const existing = await withStore<CryptoKey | undefined>(STORES.secrets, 'readonly', (store) => store.get(KEY_ID));
+    if (existing) return existing;
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    try {
+      // add() fails if another tab stored its key first; that key then wins
+      await withStore(STORES.secrets, 'readwrite', (store) => store.add(key, KEY_ID));
+      return key;
+    } catch {
+      return withStore<CryptoKey>(STORES.secrets, 'readonly', (store) => store.get(KEY_ID));
+    }
+  }
+}
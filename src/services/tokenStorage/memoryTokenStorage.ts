@@ -0,0 +1,24 @@
+import { AuthTokens } from '@/models/types';
+import { TokenStorage } from './types';
+
+/** Keeps tokens only for the life of the tab; other open tabs can share theirs. */
+export class MemoryTokenStorage implements TokenStorage {
+  readonly kind = 'memory' as const;
+  readonly persistent = false;
+  readonly usesRefreshCookie = false;
+  private tokens: AuthTokens | null = null;
+
+  load() {
+    return Promise.resolve(this.tokens);
+  }
+
+  save(tokens: AuthTokens) {
+    this.tokens = tokens;
+    return Promise.resolve();
+  }
+
+  clear() {
+    this.tokens = null;
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,18 @@
+import { AuthTokens } from '@/models/types';
+
+export type TokenStorageKind = 'memory' | 'indexeddb' | 'cookie';
+
+/**
+ * Where the API client keeps its tokens. Implementations don't reject:
+ * failing to persist only means the session isn't restored after a reload.
+ */
+export interface TokenStorage {
+  readonly kind: TokenStorageKind;
+  /** Tokens survive a reload and are seen by every tab */
+  readonly persistent: boolean;
+  /** The refresh token is an httpOnly cookie the client never sees */
+  readonly usesRefreshCookie: boolean;
+  load(): Promise<AuthTokens | null>;
+  save(tokens: AuthTokens): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,66 @@
+import { AdHocDestinationRequest } from '@/models/types';
+import { CadencePolicy } from '@/services/location/cadence';
+
+export interface CadencePolicyRecord {
+  policy: CadencePolicy;
+  intervalMs: number;
+  since: string;
+}
+
+/** Client-side facts about a trip that the backend does not store. */
+export interface TripJournalEntry {
+  cadence: CadencePolicyRecord[];
+  checkInIntervalMinutes?: number;
+  lastCheckInAt?: string;
+  /** Check-in deadline a missed check-in alert was already raised for */
+  missedCheckInAlertFor?: string;
+  /**
+   * Set when the trip was "ended" with the duress PIN. It stays open on the
+   * backend and keeps reporting location; only this device shows it as ended.
+   */
+  duressEndedAs?: 'complete' | 'cancel';
+  /** Set when the trip went to a place that isn't saved, so it can be saved after arrival */
+  adHocDestination?: AdHocDestinationRequest;
+}
+
+const STORAGE_KEY = 'safewalk_trip_journal';
+// Oldest trips are dropped once the journal grows past this many entries
+const MAX_TRIPS = 50;
+
+const emptyEntry = (): TripJournalEntry => ({ cadence: [] });
+
+function readJournal(): Record<string, TripJournalEntry> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeJournal(journal: Record<string, TripJournalEntry>) {
+  const tripIds = Object.keys(journal);
+  tripIds.slice(0, Math.max(0, tripIds.length - MAX_TRIPS)).forEach((tripId) => delete journal[tripId]);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(journal));
+}
+
+export function getTripJournal(tripId: string): TripJournalEntry {
+  return { ...emptyEntry(), ...readJournal()[tripId] };
+}
+
+export function updateTripJournal(tripId: string, update: (entry: TripJournalEntry) => TripJournalEntry) {
+  const journal = readJournal();
+  journal[tripId] = update({ ...emptyEntry(), ...journal[tripId] });
+  writeJournal(journal);
+}
+
+export function recordCadencePolicy(tripId: string, policy: CadencePolicy, intervalMs: number) {
+  updateTripJournal(tripId, (entry) => {
+    const last = entry.cadence[entry.cadence.length - 1];
+    if (last?.policy === policy && last.intervalMs === intervalMs) return entry;
+    return {
+      ...entry,
+      cadence: [...entry.cadence, { policy, intervalMs, since: new Date().toISOString() }],
+    };
+  });
+}
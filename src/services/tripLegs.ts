@@ -0,0 +1,94 @@
+import { Coordinates, haversineMeters } from '@/lib/geo';
+import { parseApiDate } from '@/lib/dates';
+import { TransportMode, TripResponse } from '@/models/types';
+
+/** Average travel speeds, used when a fix doesn't report its own speed */
+export const TYPICAL_SPEED_MPS: Record<TransportMode, number> = {
+  WALKING: 1.4,
+  BICYCLING: 4.5,
+  DRIVING: 11,
+};
+
+// Below this a reported speed is mostly GPS noise
+const MIN_MOVING_SPEED_MPS = 0.5;
+
+/** One part of a trip: from the previous stop (or the start) to the next one. */
+export interface TripLeg {
+  index: number;
+  /** Set for legs ending at a waypoint; the last leg ends at the trip destination */
+  waypointId?: string;
+  name: string;
+  from: Coordinates | null;
+  to: Coordinates;
+  radiusMeters?: number;
+  startedAt?: string;
+  arrivedAt?: string;
+}
+
+export function getTripLegs(trip: TripResponse): TripLeg[] {
+  const stops = [...(trip.waypoints ?? [])].sort((a, b) => a.order - b.order);
+  const legs: TripLeg[] = [];
+  let from: Coordinates | null =
+    trip.startLatitude != null && trip.startLongitude != null
+      ? { latitude: trip.startLatitude, longitude: trip.startLongitude }
+      : null;
+  let startedAt = trip.startedAt;
+
+  stops.forEach((stop) => {
+    const to = { latitude: stop.latitude, longitude: stop.longitude };
+    legs.push({
+      index: legs.length,
+      waypointId: stop.id,
+      name: stop.name,
+      from,
+      to,
+      radiusMeters: stop.radiusMeters,
+      startedAt,
+      arrivedAt: stop.arrivedAt,
+    });
+    from = to;
+    startedAt = stop.arrivedAt;
+  });
+
+  legs.push({
+    index: legs.length,
+    name: trip.destinationName,
+    from,
+    to: { latitude: trip.destinationLatitude, longitude: trip.destinationLongitude },
+    startedAt,
+    arrivedAt: trip.completedAt,
+  });
+  return legs;
+}
+
+/** The first leg not yet arrived at, or the last leg once all are done. */
+export function getCurrentLegIndex(legs: TripLeg[]): number {
+  const index = legs.findIndex((leg) => !leg.arrivedAt);
+  return index === -1 ? legs.length - 1 : index;
+}
+
+export function estimateMinutes(distanceMeters: number, transportMode: TransportMode, speed?: number): number {
+  const pace = speed && speed >= MIN_MOVING_SPEED_MPS ? speed : TYPICAL_SPEED_MPS[transportMode];
+  return Math.max(1, Math.round(distanceMeters / pace / 60));
+}
+
+/** Share of the leg covered, judged by straight-line distance to its end. */
+export function getLegProgress(leg: TripLeg, distanceRemainingMeters: number | null): number {
+  if (leg.arrivedAt) return 1;
+  if (!leg.from || distanceRemainingMeters == null) return 0;
+
+  const total = haversineMeters(leg.from, leg.to);
+  return total > 0 ? Math.min(1, Math.max(0, 1 - distanceRemainingMeters / total)) : 1;
+}
+
+/** When the trip is due: the backend's deadline, else the start plus the estimate and any extensions */
+export function getExpectedArrival(trip: TripResponse): Date | null {
+  const expectedArrival = parseApiDate(trip.expectedArrivalAt);
+  if (expectedArrival) return expectedArrival;
+
+  const startedAt = parseApiDate(trip.startedAt);
+  if (!startedAt) return null;
+
+  const extendedMinutes = (trip.extensions ?? []).reduce((total, extension) => total + extension.minutes, 0);
+  return new Date(startedAt.getTime() + ((trip.estimatedTimeMinutes ?? 0) + extendedMinutes) * 60000);
+}
@@ -0,0 +1,88 @@
+import { addDays, isBefore, parse } from 'date-fns';
+import { TripScheduleRequest, Weekday } from '@/models/types';
+import { formatShortDay, formatTime } from '@/lib/dates';
+
+// Indexed like Date#getDay
+const WEEKDAYS_BY_INDEX: Weekday[] = [
+  'SUNDAY',
+  'MONDAY',
+  'TUESDAY',
+  'WEDNESDAY',
+  'THURSDAY',
+  'FRIDAY',
+  'SATURDAY',
+];
+
+/** Monday-first, in the order days are shown to the user */
+export const WEEKDAYS: { day: Weekday; label: string }[] = [
+  { day: 'MONDAY', label: 'Mon' },
+  { day: 'TUESDAY', label: 'Tue' },
+  { day: 'WEDNESDAY', label: 'Wed' },
+  { day: 'THURSDAY', label: 'Thu' },
+  { day: 'FRIDAY', label: 'Fri' },
+  { day: 'SATURDAY', label: 'Sat' },
+  { day: 'SUNDAY', label: 'Sun' },
+];
+
+export const WORKWEEK: Weekday[] = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY'];
+
+type ScheduleTiming = Pick<TripScheduleRequest, 'departureTime' | 'days' | 'date'>;
+
+const sameDays = (a: Weekday[], b: Weekday[]) => a.length === b.length && a.every((day) => b.includes(day));
+
+/**
+ * The first departure at or after `from`, or null once a one-off trip has
+ * passed. Times are taken in the device's zone, which is where the user is
+ * when the reminder matters.
+ */
+export function getNextDeparture(schedule: ScheduleTiming, from = new Date()): Date | null {
+  if (schedule.days.length === 0) {
+    if (!schedule.date) return null;
+    const departure = parse(`${schedule.date} ${schedule.departureTime}`, 'yyyy-MM-dd HH:mm', from);
+    return isBefore(departure, from) ? null : departure;
+  }
+
+  const [hours, minutes] = schedule.departureTime.split(':').map(Number);
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = addDays(from, offset);
+    const departure = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+    if (schedule.days.includes(WEEKDAYS_BY_INDEX[departure.getDay()]) && !isBefore(departure, from)) {
+      return departure;
+    }
+  }
+  return null;
+}
+
+export function describeDays(days: Weekday[]): string {
+  if (days.length === 7) return 'Every day';
+  if (sameDays(days, WORKWEEK)) return 'Weekdays';
+  if (sameDays(days, ['SATURDAY', 'SUNDAY'])) return 'Weekends';
+  return WEEKDAYS.filter(({ day }) => days.includes(day))
+    .map(({ label }) => label)
+    .join(', ');
+}
+
+/** e.g. "Weekdays at 6:30 PM" or "Fri, Mar 6 at 9:00 AM" */
+export function describeSchedule(schedule: ScheduleTiming): string {
+  const time = formatTime(parse(schedule.departureTime, 'HH:mm', new Date()));
+  if (schedule.days.length > 0) return `${describeDays(schedule.days)} at ${time}`;
+  if (!schedule.date) return time;
+  return `${formatShortDay(parse(schedule.date, 'yyyy-MM-dd', new Date()))} at ${time}`;
+}
+
+/** Where a reminder leads: the start page, pre-filled from the schedule */
+export const startTripPath = (scheduleId: string) => `/trips/start?schedule=${scheduleId}`;
+
+const listeners = new Set<() => void>();
+
+/** Subscribes to schedule edits made elsewhere in the app. Returns an unsubscribe function. */
+export function onSchedulesChanged(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function notifySchedulesChanged() {
+  listeners.forEach((listener) => listener());
+}
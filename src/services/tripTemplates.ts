@@ -0,0 +1,72 @@
+import { TripResponse, TripTemplateRequest, TripTemplateResponse, TripWaypointRequest } from '@/models/types';
+import { TripPlan } from '@/services/startTrip';
+import { getTripJournal } from '@/services/tripJournal';
+
+interface ResolvedPlace {
+  destinationId?: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters?: number;
+}
+
+// Saved places are sent by id so later edits to them carry over
+const toRequest = ({ destinationId, name, latitude, longitude, radiusMeters }: ResolvedPlace): TripWaypointRequest =>
+  destinationId ? { destinationId } : { destination: { name, latitude, longitude, radiusMeters } };
+
+export function templateFromPlan(name: string, { request, checkInIntervalMinutes }: TripPlan): TripTemplateRequest {
+  return {
+    name,
+    destinationId: request.destinationId,
+    destination: request.destination,
+    waypoints: request.waypoints,
+    transportMode: request.transportMode,
+    checkInIntervalMinutes: checkInIntervalMinutes ?? undefined,
+    contactIds: request.contactIds,
+  };
+}
+
+/** A template that repeats a past trip, including its stops and check-in timer */
+export function templateFromTrip(name: string, trip: TripResponse): TripTemplateRequest {
+  const journal = getTripJournal(trip.id);
+  const destination = toRequest({
+    destinationId: trip.destinationId,
+    name: trip.destinationName,
+    latitude: trip.destinationLatitude,
+    longitude: trip.destinationLongitude,
+    radiusMeters: journal.adHocDestination?.radiusMeters,
+  });
+
+  return {
+    name,
+    ...destination,
+    waypoints: trip.waypoints?.length
+      ? [...trip.waypoints].sort((a, b) => a.order - b.order).map(toRequest)
+      : undefined,
+    transportMode: trip.transportMode,
+    checkInIntervalMinutes: journal.checkInIntervalMinutes,
+    contactIds: trip.contactIds,
+  };
+}
+
+export function planFromTemplate(template: TripTemplateResponse): TripPlan {
+  const waypoints = template.waypoints ?? [];
+
+  return {
+    request: {
+      ...toRequest({
+        destinationId: template.destinationId,
+        name: template.destinationName,
+        latitude: template.destinationLatitude,
+        longitude: template.destinationLongitude,
+        radiusMeters: template.destinationRadiusMeters,
+      }),
+      waypoints: waypoints.length > 0 ? waypoints.map(toRequest) : undefined,
+      transportMode: template.transportMode,
+      contactIds: template.contactIds,
+    },
+    destination: { latitude: template.destinationLatitude, longitude: template.destinationLongitude },
+    waypoints: waypoints.map(({ latitude, longitude }) => ({ latitude, longitude })),
+    checkInIntervalMinutes: template.checkInIntervalMinutes,
+  };
+}